@@ -0,0 +1,90 @@
+// netlify/functions/_shared/ankr.ts
+// Ankr Advanced API helpers for server-side functions
+import type { HolderPage as RankPage } from '../../../src/core/rankLookup'
+
+// TIPN staking contract on Base (staked balances are balanceOf on this token)
+export const TIPN_STAKING_ADDRESS = '0x715e56a9a4678c21f23513de9d637968d495074a'
+
+// Ankr returns at most 10,000 holders per page
+const ANKR_MAX_PAGE_SIZE = 10000
+
+export interface HolderPage extends RankPage {
+  nextPageToken?: string
+}
+
+interface AnkrTokenHoldersResponse {
+  result?: {
+    holders: Array<{ holderAddress: string; balanceRawInteger: string }>
+    holdersCount: number
+    nextPageToken?: string
+  }
+}
+
+// One page of staking-token holders, sorted by balance (descending)
+export async function fetchHolderPage(pageToken?: string, pageSize: number = ANKR_MAX_PAGE_SIZE): Promise<HolderPage> {
+  const ankrApiKey = process.env.VITE_ANKR_API_KEY
+  if (!ankrApiKey) {
+    throw new Error('Missing Ankr API key')
+  }
+
+  const response = await fetch(`https://rpc.ankr.com/multichain/${ankrApiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      method: 'ankr_getTokenHolders',
+      params: {
+        blockchain: 'base',
+        contractAddress: TIPN_STAKING_ADDRESS,
+        pageSize: Math.min(pageSize, ANKR_MAX_PAGE_SIZE),
+        pageToken
+      },
+      id: 1
+    })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ankr API error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json() as AnkrTokenHoldersResponse
+  if (!data.result?.holders) {
+    throw new Error('Invalid response format from Ankr API')
+  }
+
+  return {
+    holders: data.result.holders.map(holder => ({
+      address: holder.holderAddress.toLowerCase(),
+      amount: BigInt(holder.balanceRawInteger || '0')
+    })),
+    holdersCount: data.result.holdersCount,
+    nextPageToken: data.result.nextPageToken || undefined
+  }
+}
+
+// Top N holders with a non-zero balance, ranked from 1
+export async function fetchTopHolders(limit: number): Promise<Array<{ address: string; amount: bigint; rank: number }>> {
+  const holders: Array<{ address: string; amount: bigint }> = []
+  let pageToken: string | undefined
+
+  do {
+    const page = await fetchHolderPage(pageToken, limit - holders.length)
+    holders.push(...page.holders.filter(holder =>
+      holder.amount > 0n && holder.address !== '0x0000000000000000000000000000000000000000'
+    ))
+    pageToken = page.nextPageToken
+  } while (pageToken && holders.length < limit)
+
+  return holders.slice(0, limit).map((holder, index) => ({ ...holder, rank: index + 1 }))
+}
+
+// Every holder page in order, read lazily (see rankAgainstHolders in src/core/rankLookup)
+export async function* fetchHolderPages(): AsyncGenerator<HolderPage> {
+  let pageToken: string | undefined
+
+  do {
+    const page = await fetchHolderPage(pageToken)
+    yield page
+    pageToken = page.nextPageToken
+  } while (pageToken)
+}
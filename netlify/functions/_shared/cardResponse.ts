@@ -0,0 +1,107 @@
+// netlify/functions/_shared/cardResponse.ts
+// HTTP side of the card image functions (rank-card, leaderboard-card, home-card): signature
+// checks, PNG rasterization, ETags and an in-memory render cache, keyed by the card's signature.
+
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions'
+import { isValidCardSignature } from './cardSignature'
+import { rasterizeSvg } from './rasterize'
+
+const IMMUTABLE_MAX_AGE = 31536000
+const RETRY_MAX_AGE = 300
+
+// Rendered cards kept per warm function instance
+const RENDER_CACHE_LIMIT = 200
+const renderCache = new Map<string, Buffer>()
+
+function cacheRender(key: string, png: Buffer): void {
+  if (renderCache.size >= RENDER_CACHE_LIMIT) {
+    const oldest = renderCache.keys().next().value
+    if (oldest !== undefined) renderCache.delete(oldest)
+  }
+  renderCache.set(key, png)
+}
+
+function pngResponse(png: Buffer, etag: string, maxAge: number): HandlerResponse {
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'image/png',
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': maxAge === IMMUTABLE_MAX_AGE ? `public, max-age=${maxAge}, immutable` : `public, max-age=${maxAge}`,
+      'ETag': `"${etag}"`
+    },
+    body: png.toString('base64'),
+    isBase64Encoded: true
+  }
+}
+
+export function jsonError(statusCode: number, error: string, details?: string): HandlerResponse {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
+    body: JSON.stringify(details ? { error, details } : { error })
+  }
+}
+
+export interface CardRender {
+  svg: string
+  // False when part of the card (e.g. a pfp) couldn't be loaded; such renders are cached briefly
+  complete: boolean
+}
+
+// Serve a card: reject it unless the request's `v` signs `payload` (the card's canonical content)
+export async function serveCard(
+  event: HandlerEvent,
+  kind: string,
+  payload: string,
+  render: () => Promise<CardRender>
+): Promise<HandlerResponse> {
+  const hash = new URLSearchParams(event.rawQuery || '').get('v')
+  try {
+    if (!hash || !isValidCardSignature(payload, hash)) {
+      console.warn(`⚠️ Rejected ${kind} card with an invalid signature`)
+      return jsonError(403, 'Invalid card signature')
+    }
+  } catch (error) {
+    console.error(`❌ Could not verify ${kind} card:`, error)
+    return jsonError(503, 'Card verification unavailable')
+  }
+
+  return serveRenderedCard(event, kind, hash, render)
+}
+
+// Serve the PNG of the card identified by `hash` (equal hashes mean equal content), answering
+// from the ETag or render cache before calling `render`. Signed cards never change, so they are
+// cached forever unless a shorter `maxAge` is given.
+export async function serveRenderedCard(
+  event: HandlerEvent,
+  kind: string,
+  hash: string,
+  render: () => Promise<CardRender>,
+  maxAge: number = IMMUTABLE_MAX_AGE
+): Promise<HandlerResponse> {
+  if (event.headers['if-none-match'] === `"${hash}"`) {
+    return { statusCode: 304, headers: { 'ETag': `"${hash}"` }, body: '' }
+  }
+
+  const cacheKey = `${kind}:${hash}`
+  const cached = renderCache.get(cacheKey)
+  if (cached) {
+    return pngResponse(cached, hash, maxAge)
+  }
+
+  try {
+    const { svg, complete } = await render()
+    const png = rasterizeSvg(svg)
+    if (!complete) {
+      return pngResponse(png, `${hash}-partial`, Math.min(RETRY_MAX_AGE, maxAge))
+    }
+
+    cacheRender(cacheKey, png)
+    console.log(`🖼️ Rendered ${kind} card ${hash}`)
+    return pngResponse(png, hash, maxAge)
+  } catch (error) {
+    console.error(`❌ Failed to render ${kind} card:`, error)
+    return jsonError(500, `Failed to render ${kind} card`, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
@@ -0,0 +1,29 @@
+// netlify/functions/_shared/cardSignature.ts
+// HMAC signatures for card image URLs (the `v` parameter), keyed with CARD_SIGNING_SECRET.
+// Only functions holding the secret can mint card URLs, so the card endpoints render nothing
+// but content the app itself produced.
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+// Hex characters kept from the SHA-256 HMAC (128 bits)
+const SIGNATURE_LENGTH = 32
+const SIGNATURE_PATTERN = new RegExp(`^[0-9a-f]{${SIGNATURE_LENGTH}}$`)
+
+function getSigningSecret(): string {
+  const secret = process.env.CARD_SIGNING_SECRET
+  if (!secret) {
+    throw new Error('Missing card signing configuration (CARD_SIGNING_SECRET)')
+  }
+  return secret
+}
+
+export function signCardPayload(payload: string): string {
+  return createHmac('sha256', getSigningSecret()).update(payload).digest('hex').slice(0, SIGNATURE_LENGTH)
+}
+
+// Anything but lowercase hex of the right length is rejected before the comparison, since
+// timingSafeEqual throws on buffers of different byte lengths (e.g. a multibyte `v`)
+export function isValidCardSignature(payload: string, signature: string | null): boolean {
+  if (!signature || !SIGNATURE_PATTERN.test(signature)) return false
+  return timingSafeEqual(Buffer.from(signCardPayload(payload)), Buffer.from(signature))
+}
@@ -0,0 +1,18 @@
+// netlify/functions/_shared/ed25519.ts
+// Ed25519 signature checks for Farcaster signer keys (frame messages, mini app webhook events)
+
+import { createPublicKey, verify } from 'node:crypto'
+
+// Ed25519 public keys as DER: fixed SPKI prefix + the 32 raw key bytes
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex')
+
+export function verifyEd25519(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): boolean {
+  if (publicKey.length !== 32 || signature.length !== 64) return false
+
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey)]),
+    format: 'der',
+    type: 'spki'
+  })
+  return verify(null, message, key, signature)
+}
@@ -0,0 +1,77 @@
+// netlify/functions/_shared/enrichmentSchedule.ts
+// When each staker's identity is due for (re-)enrichment, and in which order due stakers
+// are processed. Stored per address in tipn_stakers (see sql/identity_enrichment_schedule.sql).
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const SCHEDULE_CONFIG = {
+  // Verified identities are refreshed so usernames, pfps and follower counts stay current
+  VERIFIED_TTL_MS: 3 * 24 * HOUR_MS,
+  // Addresses with no identity are retried with exponential backoff: 6h, 12h, 24h ... 30 days
+  EMPTY_BASE_MS: 6 * HOUR_MS,
+  EMPTY_MAX_MS: 30 * 24 * HOUR_MS,
+  // Failed lookups are retried sooner: 15m, 30m, 1h ... 1 day
+  ERROR_BASE_MS: 15 * 60 * 1000,
+  ERROR_MAX_MS: 24 * HOUR_MS,
+  // How overdue a never-enriched staker counts as, so new stakers go first
+  NEVER_ENRICHED_OVERDUE_MS: 30 * 24 * HOUR_MS,
+}
+
+export type EnrichmentOutcome = 'verified' | 'empty' | 'error'
+
+export interface ScheduleRow {
+  address: string
+  rank: number
+  identity_attempts: number | null
+  identity_next_refresh_at: string | null
+}
+
+export interface ScheduleUpdate {
+  identity_attempts: number
+  identity_last_attempt_at: string
+  identity_next_refresh_at: string
+  identity_last_error: string | null
+}
+
+function backoff(baseMs: number, maxMs: number, attempts: number): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(attempts - 1, 0))
+}
+
+// Schedule columns to write after an enrichment attempt. identity_attempts counts
+// consecutive attempts that didn't produce a verified identity.
+export function nextSchedule(
+  previousAttempts: number,
+  outcome: EnrichmentOutcome,
+  error: string | null = null,
+  now: number = Date.now()
+): ScheduleUpdate {
+  const attempts = outcome === 'verified' ? 0 : previousAttempts + 1
+  const delay = outcome === 'verified'
+    ? SCHEDULE_CONFIG.VERIFIED_TTL_MS
+    : outcome === 'empty'
+      ? backoff(SCHEDULE_CONFIG.EMPTY_BASE_MS, SCHEDULE_CONFIG.EMPTY_MAX_MS, attempts)
+      : backoff(SCHEDULE_CONFIG.ERROR_BASE_MS, SCHEDULE_CONFIG.ERROR_MAX_MS, attempts)
+
+  return {
+    identity_attempts: attempts,
+    identity_last_attempt_at: new Date(now).toISOString(),
+    identity_next_refresh_at: new Date(now + delay).toISOString(),
+    identity_last_error: outcome === 'error' ? error : null
+  }
+}
+
+// Higher runs first: how overdue the staker is, weighted so top ranks are refreshed before
+// the tail (rank 1 counts fully, rank 1000 about a tenth)
+export function enrichmentPriority(row: ScheduleRow, now: number = Date.now()): number {
+  const overdueMs = row.identity_next_refresh_at
+    ? Math.max(now - Date.parse(row.identity_next_refresh_at), 0)
+    : SCHEDULE_CONFIG.NEVER_ENRICHED_OVERDUE_MS
+  const rankWeight = 1 / Math.log2(row.rank + 1)
+
+  return (1 + overdueMs / HOUR_MS) * rankWeight
+}
+
+// PostgREST filter for stakers whose identity is due now (never enriched, or past their next refresh)
+export function dueFilter(now: number = Date.now()): string {
+  return `or=(identity_next_refresh_at.is.null,identity_next_refresh_at.lte.${new Date(now).toISOString()})`
+}
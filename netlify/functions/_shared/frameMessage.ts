@@ -0,0 +1,207 @@
+// netlify/functions/_shared/frameMessage.ts
+// Decodes and verifies the signed Farcaster message a frame client posts in
+// trustedData.messageBytes, so frame handlers never act on untrustedData. Only the parts of the
+// protobuf schema a frame action needs are read (Message, MessageData, FrameActionBody, CastId).
+
+import { blake3 } from '@noble/hashes/blake3'
+import { verifyEd25519 } from './ed25519'
+import type { SignerLookup } from './signers'
+
+// Farcaster timestamps are seconds since 2021-01-01T00:00:00Z
+const FARCASTER_EPOCH_MS = 1609459200000
+
+const MESSAGE_TYPE_FRAME_ACTION = 13
+const HASH_SCHEME_BLAKE3 = 1
+const SIGNATURE_SCHEME_ED25519 = 1
+const NETWORK_MAINNET = 1
+
+// Field numbers from the Farcaster protobufs
+const MESSAGE_FIELDS = { data: 1, hash: 2, hashScheme: 3, signature: 4, signatureScheme: 5, signer: 6, dataBytes: 7 }
+const MESSAGE_DATA_FIELDS = { type: 1, fid: 2, timestamp: 3, network: 4, frameActionBody: 16 }
+const FRAME_ACTION_FIELDS = { url: 1, buttonIndex: 2, castId: 3, inputText: 4, state: 5 }
+const CAST_ID_FIELDS = { fid: 1, hash: 2 }
+
+export const FRAME_MESSAGE_CONFIG = {
+  // Actions older (or further in the future) than this are rejected as replays
+  MAX_AGE_MS: 10 * 60 * 1000,
+}
+
+export class FrameValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FrameValidationError'
+  }
+}
+
+export interface FrameActionMessage {
+  fid: number
+  timestamp: Date
+  url: string
+  buttonIndex: number
+  castId: { fid: number; hash: string } | null
+  inputText: string
+  state: string
+  signer: `0x${string}`
+}
+
+type FieldValue = number | Uint8Array
+
+// Minimal protobuf reader: field number -> values in wire order (varints and length-delimited bytes)
+function readFields(bytes: Uint8Array): Map<number, FieldValue[]> {
+  const fields = new Map<number, FieldValue[]>()
+  let offset = 0
+
+  const readVarint = (): number => {
+    let value = 0
+    for (let shift = 0; shift < 64; shift += 7) {
+      if (offset >= bytes.length) throw new FrameValidationError('Truncated varint')
+      const byte = bytes[offset++]
+      value += (byte & 0x7f) * 2 ** shift
+      if ((byte & 0x80) === 0) return value
+    }
+    throw new FrameValidationError('Varint too long')
+  }
+
+  while (offset < bytes.length) {
+    const key = readVarint()
+    const field = Math.floor(key / 8)
+    const wireType = key % 8
+    let value: FieldValue
+
+    if (wireType === 0) {
+      value = readVarint()
+    } else if (wireType === 2) {
+      const length = readVarint()
+      if (offset + length > bytes.length) throw new FrameValidationError('Truncated field')
+      value = bytes.subarray(offset, offset + length)
+      offset += length
+    } else if (wireType === 1 || wireType === 5) {
+      // Fixed-width fields aren't used by frame actions; skip them
+      offset += wireType === 1 ? 8 : 4
+      continue
+    } else {
+      throw new FrameValidationError(`Unsupported wire type ${wireType}`)
+    }
+
+    fields.set(field, [...(fields.get(field) || []), value])
+  }
+
+  return fields
+}
+
+function numberField(fields: Map<number, FieldValue[]>, field: number): number {
+  const value = fields.get(field)?.at(-1)
+  return typeof value === 'number' ? value : 0
+}
+
+function bytesField(fields: Map<number, FieldValue[]>, field: number): Uint8Array | null {
+  const value = fields.get(field)?.at(-1)
+  return value instanceof Uint8Array ? value : null
+}
+
+function toHex(bytes: Uint8Array): `0x${string}` {
+  return `0x${Buffer.from(bytes).toString('hex')}`
+}
+
+function utf8(bytes: Uint8Array | null): string {
+  return bytes ? new TextDecoder().decode(bytes) : ''
+}
+
+function decodeCastId(bytes: Uint8Array | null): FrameActionMessage['castId'] {
+  if (!bytes) return null
+  const fields = readFields(bytes)
+  const hash = bytesField(fields, CAST_ID_FIELDS.hash)
+  return { fid: numberField(fields, CAST_ID_FIELDS.fid), hash: hash ? toHex(hash) : '0x' }
+}
+
+// Decode messageBytes (hex) and check, in order: hash, signature, message type and network,
+// timestamp, frame URL host (when `expectedHost` is given) and that the signer key is
+// active for the fid. Throws FrameValidationError for any message that fails a check;
+// signer lookup failures propagate as-is.
+export async function verifyFrameMessage(
+  messageBytesHex: string,
+  signerLookup: SignerLookup,
+  expectedHost: string | null = null,
+  now: number = Date.now()
+): Promise<FrameActionMessage> {
+  const hex = messageBytesHex.replace(/^0x/, '')
+  if (!hex || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) {
+    throw new FrameValidationError('messageBytes is not hex')
+  }
+
+  const message = readFields(Buffer.from(hex, 'hex'))
+  const dataBytes = bytesField(message, MESSAGE_FIELDS.dataBytes) ?? bytesField(message, MESSAGE_FIELDS.data)
+  const hash = bytesField(message, MESSAGE_FIELDS.hash)
+  const signature = bytesField(message, MESSAGE_FIELDS.signature)
+  const signer = bytesField(message, MESSAGE_FIELDS.signer)
+
+  if (!dataBytes || !hash || !signature || !signer) {
+    throw new FrameValidationError('Message is missing data, hash, signature or signer')
+  }
+  if (numberField(message, MESSAGE_FIELDS.hashScheme) !== HASH_SCHEME_BLAKE3) {
+    throw new FrameValidationError('Unsupported hash scheme')
+  }
+  if (numberField(message, MESSAGE_FIELDS.signatureScheme) !== SIGNATURE_SCHEME_ED25519 || signer.length !== 32 || signature.length !== 64) {
+    throw new FrameValidationError('Unsupported signature scheme')
+  }
+
+  // The signature covers the hash, so the hash must be checked against the data it claims to cover
+  if (!Buffer.from(blake3(dataBytes, { dkLen: 20 })).equals(Buffer.from(hash))) {
+    throw new FrameValidationError('Message hash does not match its data')
+  }
+  if (!verifyEd25519(hash, signature, signer)) {
+    throw new FrameValidationError('Invalid message signature')
+  }
+
+  const data = readFields(dataBytes)
+  if (numberField(data, MESSAGE_DATA_FIELDS.type) !== MESSAGE_TYPE_FRAME_ACTION) {
+    throw new FrameValidationError('Message is not a frame action')
+  }
+  if (numberField(data, MESSAGE_DATA_FIELDS.network) !== NETWORK_MAINNET) {
+    throw new FrameValidationError('Message is not from Farcaster mainnet')
+  }
+
+  const fid = numberField(data, MESSAGE_DATA_FIELDS.fid)
+  const timestamp = new Date(FARCASTER_EPOCH_MS + numberField(data, MESSAGE_DATA_FIELDS.timestamp) * 1000)
+  if (!fid) {
+    throw new FrameValidationError('Message has no fid')
+  }
+  if (Math.abs(now - timestamp.getTime()) > FRAME_MESSAGE_CONFIG.MAX_AGE_MS) {
+    throw new FrameValidationError('Message timestamp is too old or in the future')
+  }
+
+  const body = bytesField(data, MESSAGE_DATA_FIELDS.frameActionBody)
+  if (!body) {
+    throw new FrameValidationError('Message has no frame action body')
+  }
+  const action = readFields(body)
+  const url = utf8(bytesField(action, FRAME_ACTION_FIELDS.url))
+
+  if (expectedHost) {
+    let host: string | null = null
+    try {
+      host = new URL(url).host
+    } catch {
+      // Invalid URLs fail the host check below
+    }
+    if (host !== expectedHost) {
+      throw new FrameValidationError(`Frame action is for ${host ?? 'an invalid URL'}, not ${expectedHost}`)
+    }
+  }
+
+  const signerKey = toHex(signer)
+  if (!(await signerLookup.isActiveSigner(fid, signerKey))) {
+    throw new FrameValidationError(`Signer ${signerKey} is not active for fid ${fid}`)
+  }
+
+  return {
+    fid,
+    timestamp,
+    url,
+    buttonIndex: numberField(action, FRAME_ACTION_FIELDS.buttonIndex),
+    castId: decodeCastId(bytesField(action, FRAME_ACTION_FIELDS.castId)),
+    inputText: utf8(bytesField(action, FRAME_ACTION_FIELDS.inputText)),
+    state: utf8(bytesField(action, FRAME_ACTION_FIELDS.state)),
+    signer: signerKey
+  }
+}
@@ -0,0 +1,35 @@
+// netlify/functions/_shared/notificationTokens.ts
+// Mini App notification tokens (public.miniapp_notification_tokens, see sql/notifications.sql)
+
+import { supabaseRequest } from './supabase'
+
+export interface NotificationTokenRow {
+  fid: number
+  app_key: string
+  url: string
+  token: string
+}
+
+export async function saveNotificationToken(fid: number, appKey: string, url: string, token: string): Promise<void> {
+  await supabaseRequest('miniapp_notification_tokens?on_conflict=fid,app_key', {
+    method: 'POST',
+    headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+    body: JSON.stringify({ fid, app_key: appKey, url, token, updated_at: new Date().toISOString() })
+  })
+}
+
+export async function deleteNotificationToken(fid: number, appKey: string): Promise<void> {
+  await supabaseRequest(`miniapp_notification_tokens?fid=eq.${fid}&app_key=eq.${appKey}`, { method: 'DELETE' })
+}
+
+// Tokens a client reported as invalid (the user removed the app or disabled notifications)
+export async function deleteNotificationTokensByValue(tokens: string[]): Promise<void> {
+  for (let i = 0; i < tokens.length; i += 100) {
+    const batch = tokens.slice(i, i + 100).map(token => `"${token.replace(/"/g, '')}"`)
+    await supabaseRequest(`miniapp_notification_tokens?token=in.(${batch.join(',')})`, { method: 'DELETE' })
+  }
+}
+
+export async function fetchAllNotificationTokens(): Promise<NotificationTokenRow[]> {
+  return supabaseRequest<NotificationTokenRow[]>('miniapp_notification_tokens?select=fid,app_key,url,token&order=fid')
+}
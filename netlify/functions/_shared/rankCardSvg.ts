@@ -0,0 +1,180 @@
+// netlify/functions/_shared/rankCardSvg.ts
+// Server-side rank card, leaderboard page and home card rendering as self-contained SVGs, which
+// cardResponse rasterizes to PNG. The pfp is passed in as a data URI because the rasterizer
+// doesn't load external resources.
+
+import {
+  RANK_CARD_EMBED_HEIGHT,
+  RANK_CARD_HEIGHT,
+  RANK_CARD_WIDTH,
+  isFetchablePfp,
+  type LeaderboardCardData,
+  type RankCardData,
+  type RankCardLayout
+} from '../../../src/core/rankCard'
+
+const FONT_FAMILY = `Inter, 'Helvetica Neue', Arial, sans-serif`
+const MAX_PFP_BYTES = 1024 * 1024
+const PFP_TIMEOUT_MS = 3000
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function truncate(value: string, maxLength: number): string {
+  const chars = [...value]
+  return chars.length > maxLength ? `${chars.slice(0, maxLength - 1).join('')}…` : value
+}
+
+// A decimal TIPN string with thousands separators, e.g. "12345.5" -> "12,345.5"
+function formatDecimal(value: string): string {
+  const [whole, fraction] = value.split('.')
+  const grouped = BigInt(whole).toLocaleString('en-US')
+  return fraction ? `${grouped}.${fraction}` : grouped
+}
+
+// Download the pfp and inline it; null (initial placeholder) if it's missing, too large, slow
+// or not on a known image host (redirects included)
+export async function fetchPfpDataUri(pfpUrl: string | null): Promise<string | null> {
+  if (!isFetchablePfp(pfpUrl)) return null
+
+  try {
+    const response = await fetch(pfpUrl, { signal: AbortSignal.timeout(PFP_TIMEOUT_MS) })
+    if (!isFetchablePfp(response.url)) {
+      console.warn(`⚠️ Pfp ${pfpUrl} redirected off the allowed hosts`)
+      return null
+    }
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim() || ''
+
+    // Raster images only - an SVG pfp could carry its own external references
+    if (!response.ok || !contentType.startsWith('image/') || contentType === 'image/svg+xml') {
+      console.warn(`⚠️ Unusable pfp ${pfpUrl}: ${response.status} ${contentType}`)
+      return null
+    }
+
+    const bytes = Buffer.from(await response.arrayBuffer())
+    if (bytes.length > MAX_PFP_BYTES) {
+      console.warn(`⚠️ Pfp too large (${bytes.length} bytes): ${pfpUrl}`)
+      return null
+    }
+
+    return `data:${contentType};base64,${bytes.toString('base64')}`
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch pfp ${pfpUrl}:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+function statBox(x: number, label: string, value: string, valueColor: string): string {
+  return `
+  <rect x="${x}" y="400" width="330" height="140" rx="24" fill="#1e293b" fill-opacity="0.8" stroke="#334155" />
+  <text x="${x + 32}" y="450" font-size="26" fill="#94a3b8">${escapeXml(label)}</text>
+  <text x="${x + 32}" y="510" font-size="48" font-weight="700" fill="${valueColor}">${escapeXml(value)}</text>`
+}
+
+function background(): string {
+  return `<defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#0f172a" />
+      <stop offset="0.5" stop-color="#2e1065" />
+      <stop offset="1" stop-color="#0f172a" />
+    </linearGradient>
+    <clipPath id="pfp"><circle cx="180" cy="220" r="100" /></clipPath>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)" />`
+}
+
+function header(): string {
+  return `<text x="80" y="80" font-size="26" font-weight="600" letter-spacing="4" fill="#c084fc">TOP TIPNERS</text>`
+}
+
+export function renderRankCardSvg(data: RankCardData, pfpDataUri: string | null): string {
+  const name = truncate(data.name, 22)
+  const amount = BigInt(data.amount).toLocaleString('en-US')
+  const rankLabel = data.totalHolders ? `Rank of ${data.totalHolders.toLocaleString('en-US')}` : 'Rank'
+  const topPercent = data.percentile !== null ? `Top ${Math.max(100 - data.percentile, 0.1).toFixed(1)}%` : '—'
+  const delta = data.rankDelta
+  const deltaText = delta ? `${delta > 0 ? '▲' : '▼'} ${Math.abs(delta).toLocaleString('en-US')}` : '—'
+  const deltaColor = delta && delta > 0 ? '#4ade80' : delta && delta < 0 ? '#f87171' : '#e2e8f0'
+  const nextRank = data.distanceToNextRank
+    ? `${formatDecimal(data.distanceToNextRank)} TIPN more to climb a rank`
+    : data.rank === 1 ? 'Top staker' : null
+
+  const avatar = pfpDataUri
+    ? `<image href="${pfpDataUri}" x="80" y="120" width="200" height="200" clip-path="url(#pfp)" preserveAspectRatio="xMidYMid slice" />`
+    : `<circle cx="180" cy="220" r="100" fill="#475569" />
+  <text x="180" y="250" font-size="88" font-weight="600" fill="#cbd5e1" text-anchor="middle">${escapeXml([...data.name][0]?.toUpperCase() || '?')}</text>`
+
+  // The embed layout (3:2) is the frame card vertically centred on a taller background
+  const height = data.layout === 'embed' ? RANK_CARD_EMBED_HEIGHT : RANK_CARD_HEIGHT
+  const offsetY = (height - RANK_CARD_HEIGHT) / 2
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${RANK_CARD_WIDTH}" height="${height}" viewBox="0 0 ${RANK_CARD_WIDTH} ${height}" font-family="${FONT_FAMILY}">
+  ${background()}
+  <g transform="translate(0 ${offsetY})">
+  ${header()}
+  <text x="${RANK_CARD_WIDTH - 80}" y="80" font-size="26" fill="#94a3b8" text-anchor="end">top-tipners.epicdylan.com</text>
+  ${avatar}
+  <circle cx="180" cy="220" r="100" fill="none" stroke="#64748b" stroke-width="4" />
+  <text x="320" y="200" font-size="60" font-weight="700" fill="#ffffff">${escapeXml(name)}</text>
+  <text x="320" y="270" font-size="36" fill="#c084fc">${escapeXml(amount)} TIPN staked</text>
+  ${nextRank ? `<text x="320" y="318" font-size="28" fill="#94a3b8">${escapeXml(nextRank)}</text>` : ''}
+  ${statBox(80, rankLabel, `#${data.rank.toLocaleString('en-US')}`, '#ffffff')}
+  ${statBox(435, 'Percentile', topPercent, '#c084fc')}
+  ${statBox(790, 'Rank change', deltaText, deltaColor)}
+  </g>
+</svg>`
+}
+
+const ROW_TOP = 110
+const ROW_HEIGHT = 46
+
+// One page of the leaderboard: rank, name and amount per row, the highlighted rank (the viewer
+// or a search result) on a purple band
+export function renderLeaderboardCardSvg(data: LeaderboardCardData): string {
+  const rows = data.rows.map((row, index) => {
+    const y = ROW_TOP + index * ROW_HEIGHT
+    const highlighted = row.rank === data.highlightRank
+    return `
+  ${highlighted ? `<rect x="60" y="${y}" width="${RANK_CARD_WIDTH - 120}" height="${ROW_HEIGHT - 4}" rx="12" fill="#7c3aed" fill-opacity="0.45" />` : ''}
+  <text x="100" y="${y + 31}" font-size="26" font-weight="700" fill="${row.rank <= 3 ? '#facc15' : '#94a3b8'}">#${row.rank.toLocaleString('en-US')}</text>
+  <text x="240" y="${y + 31}" font-size="26" font-weight="${highlighted ? '700' : '500'}" fill="#ffffff">${escapeXml(truncate(row.name, 36))}</text>
+  <text x="${RANK_CARD_WIDTH - 100}" y="${y + 31}" font-size="26" fill="#c084fc" text-anchor="end">${escapeXml(BigInt(row.amount).toLocaleString('en-US'))} TIPN</text>`
+  }).join('')
+
+  const empty = data.rows.length === 0
+    ? `<text x="${RANK_CARD_WIDTH / 2}" y="330" font-size="32" fill="#94a3b8" text-anchor="middle">No stakers on this page</text>`
+    : ''
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${RANK_CARD_WIDTH}" height="${RANK_CARD_HEIGHT}" viewBox="0 0 ${RANK_CARD_WIDTH} ${RANK_CARD_HEIGHT}" font-family="${FONT_FAMILY}">
+  ${background()}
+  ${header()}
+  ${data.caption ? `<text x="${RANK_CARD_WIDTH - 80}" y="80" font-size="26" fill="#e2e8f0" text-anchor="end">${escapeXml(truncate(data.caption, 48))}</text>` : ''}
+  ${rows}
+  ${empty}
+  <text x="80" y="${RANK_CARD_HEIGHT - 22}" font-size="22" fill="#94a3b8">Page ${data.page.toLocaleString('en-US')} of ${data.totalPages.toLocaleString('en-US')}</text>
+  <text x="${RANK_CARD_WIDTH - 80}" y="${RANK_CARD_HEIGHT - 22}" font-size="22" fill="#94a3b8" text-anchor="end">top-tipners.epicdylan.com</text>
+</svg>`
+}
+
+// Link preview and Mini App embed image for the home page, in the rank card's layouts
+export function renderHomeCardSvg(layout: RankCardLayout): string {
+  const height = layout === 'embed' ? RANK_CARD_EMBED_HEIGHT : RANK_CARD_HEIGHT
+  const offsetY = (height - RANK_CARD_HEIGHT) / 2
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${RANK_CARD_WIDTH}" height="${height}" viewBox="0 0 ${RANK_CARD_WIDTH} ${height}" font-family="${FONT_FAMILY}">
+  ${background()}
+  <g transform="translate(0 ${offsetY})">
+  ${header()}
+  <text x="${RANK_CARD_WIDTH - 80}" y="80" font-size="26" fill="#94a3b8" text-anchor="end">top-tipners.epicdylan.com</text>
+  <text x="80" y="300" font-size="84" font-weight="700" fill="#ffffff">Top 1000 $TIPN Stakers</text>
+  <text x="80" y="380" font-size="40" fill="#c084fc">Community leaderboard on Base</text>
+  <text x="80" y="520" font-size="30" fill="#94a3b8">Find your rank, share it and climb the leaderboard</text>
+  </g>
+</svg>`
+}
@@ -0,0 +1,25 @@
+// netlify/functions/_shared/rankHistory.ts
+// Rank history from the refresh snapshots (tipn_snapshot_runs / tipn_staker_snapshots)
+
+import { supabaseRequest } from './supabase'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Snapshot rank of an address in the last refresh run at least a day old (best effort)
+export async function fetchRankDayAgo(address: string): Promise<number | null> {
+  try {
+    const dayAgo = new Date(Date.now() - DAY_MS).toISOString()
+    const [run] = await supabaseRequest<Array<{ run_id: string }>>(
+      `tipn_snapshot_runs?select=run_id&captured_at=lte.${dayAgo}&order=captured_at.desc&limit=1`
+    )
+    if (!run) return null
+
+    const [snapshot] = await supabaseRequest<Array<{ rank: number }>>(
+      `tipn_staker_snapshots?select=rank&run_id=eq.${run.run_id}&address=eq.${address}`
+    )
+    return snapshot?.rank ?? null
+  } catch (error) {
+    console.warn(`⚠️ Could not load 24h rank for ${address}:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
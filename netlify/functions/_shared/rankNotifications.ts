@@ -0,0 +1,303 @@
+// netlify/functions/_shared/rankNotifications.ts
+// Rank change notifications after a staking refresh: each subscribed Farcaster user's best rank
+// across their verified addresses is compared before and after the run, and at most one
+// notification per user and run is sent, subject to their preferences and daily limit.
+
+import { supabaseRequest } from './supabase'
+import { rateLimiter } from './rateLimiter'
+import { deleteNotificationTokensByValue, fetchAllNotificationTokens, type NotificationTokenRow } from './notificationTokens'
+import { shortenAddress } from '../../../src/core/identity'
+import { getStakerPageUrl } from '../../../src/core/miniApp'
+import {
+  toNotificationPreferences,
+  type NotificationPreferences,
+  type NotificationPreferencesRow
+} from '../../../src/core/notifications'
+
+const NOTIFICATION_CONFIG = {
+  NEYNAR_BULK_SIZE: 100,
+  TOKENS_PER_REQUEST: 100,
+  // Client limits for notification text
+  MAX_TITLE_LENGTH: 32,
+  MAX_BODY_LENGTH: 128,
+  LIMIT_WINDOW_MS: 24 * 60 * 60 * 1000,
+}
+
+const NEYNAR_API_URL = 'https://api.neynar.com/v2'
+
+export type RankNotificationKind =
+  | 'entered_top_100'
+  | 'left_top_100'
+  | 'entered_top_1000'
+  | 'left_top_1000'
+  | 'overtaken'
+  | 'rank_up'
+  | 'rank_down'
+
+export interface RankedAddress {
+  address: string
+  rank: number
+  display_name?: string | null
+}
+
+export interface RankNotification {
+  kind: RankNotificationKind
+  title: string
+  body: string
+}
+
+interface SendNotificationResponse {
+  result: {
+    successfulTokens: string[]
+    invalidTokens: string[]
+    rateLimitedTokens: string[]
+  }
+}
+
+interface NotificationLogRow {
+  fid: number
+  kind: RankNotificationKind
+  notification_id: string
+  run_id: string
+  delivered_count: number
+}
+
+// The notification (if any) for a user whose best rank went from `previous` to `next`
+// (null = not in the top 1000). `overtaker` is the closest holder that passed them.
+export function detectRankChange(
+  previous: number | null,
+  next: number | null,
+  preferences: NotificationPreferences,
+  overtaker: string | null
+): RankNotification | null {
+  if (preferences.top1000 && previous === null && next !== null) {
+    return { kind: 'entered_top_1000', title: '🎉 You made the leaderboard', body: `You're #${next} of the top 1000 TIPN stakers on Top Tipners.` }
+  }
+  if (preferences.top1000 && previous !== null && next === null) {
+    return { kind: 'left_top_1000', title: '📉 Off the leaderboard', body: `You were #${previous} and are no longer in the top 1000 TIPN stakers.` }
+  }
+  if (previous === null || next === null) return null
+
+  if (preferences.top100 && previous > 100 && next <= 100) {
+    return { kind: 'entered_top_100', title: "🏆 You're in the top 100!", body: `You moved up from #${previous} to #${next} on Top Tipners.` }
+  }
+  if (preferences.top100 && previous <= 100 && next > 100) {
+    return { kind: 'left_top_100', title: '📉 You left the top 100', body: `You're now #${next} (was #${previous}). Stake more TIPN to climb back.` }
+  }
+
+  const moved = previous - next
+  if (preferences.overtaken && moved < 0 && overtaker) {
+    return { kind: 'overtaken', title: '⚔️ You were overtaken', body: `${overtaker} passed you - you're now #${next} (was #${previous}).` }
+  }
+  if (preferences.rankMoves && Math.abs(moved) >= preferences.moveThreshold) {
+    return moved > 0
+      ? { kind: 'rank_up', title: `🚀 Up ${moved} places`, body: `You're now #${next} (was #${previous}) on Top Tipners.` }
+      : { kind: 'rank_down', title: `📉 Down ${-moved} places`, body: `You're now #${next} (was #${previous}) on Top Tipners.` }
+  }
+
+  return null
+}
+
+function truncate(value: string, maxLength: number): string {
+  const chars = [...value]
+  return chars.length > maxLength ? `${chars.slice(0, maxLength - 1).join('')}…` : value
+}
+
+// Verified addresses per fid (Neynar bulk user lookup)
+async function fetchVerifiedAddresses(fids: number[], neynarApiKey: string): Promise<Map<number, string[]>> {
+  const addresses = new Map<number, string[]>()
+
+  for (let i = 0; i < fids.length; i += NOTIFICATION_CONFIG.NEYNAR_BULK_SIZE) {
+    const chunk = fids.slice(i, i + NOTIFICATION_CONFIG.NEYNAR_BULK_SIZE)
+    await rateLimiter.acquire('neynar')
+
+    const response = await fetch(`${NEYNAR_API_URL}/farcaster/user/bulk?fids=${chunk.join(',')}`, {
+      headers: { 'accept': 'application/json', 'api_key': neynarApiKey }
+    })
+    if (!response.ok) {
+      throw new Error(`Neynar API error: ${response.status}`)
+    }
+
+    const data = await response.json() as { users?: Array<{ fid: number; verified_addresses?: { eth_addresses?: string[] } }> }
+    for (const user of data.users || []) {
+      addresses.set(user.fid, (user.verified_addresses?.eth_addresses || []).map(address => address.toLowerCase()))
+    }
+  }
+
+  return addresses
+}
+
+async function fetchPreferences(fids: number[]): Promise<Map<number, NotificationPreferences>> {
+  const rows = await supabaseRequest<NotificationPreferencesRow[]>(
+    `notification_preferences?select=*&fid=in.(${fids.join(',')})`
+  )
+  return new Map(rows.map(row => [row.fid, toNotificationPreferences(row)]))
+}
+
+// Notifications sent to each fid within the limit window
+async function fetchRecentCounts(fids: number[]): Promise<Map<number, number>> {
+  const since = new Date(Date.now() - NOTIFICATION_CONFIG.LIMIT_WINDOW_MS).toISOString()
+  const rows = await supabaseRequest<Array<{ fid: number }>>(
+    `notification_log?select=fid&fid=in.(${fids.join(',')})&sent_at=gte.${since}`
+  )
+  const counts = new Map<number, number>()
+  for (const row of rows) {
+    counts.set(row.fid, (counts.get(row.fid) || 0) + 1)
+  }
+  return counts
+}
+
+function bestRank(addresses: string[], ranks: Map<string, RankedAddress>): RankedAddress | null {
+  let best: RankedAddress | null = null
+  for (const address of addresses) {
+    const ranked = ranks.get(address)
+    if (ranked && (!best || ranked.rank < best.rank)) best = ranked
+  }
+  return best
+}
+
+// Closest holder now ranked above `rank` that was below `previousRank` (or off the leaderboard)
+function findOvertaker(
+  rank: number,
+  previousRank: number,
+  own: Set<string>,
+  next: RankedAddress[],
+  previousByAddress: Map<string, RankedAddress>
+): string | null {
+  let overtaker: RankedAddress | null = null
+  for (const holder of next) {
+    if (holder.rank >= rank || own.has(holder.address)) continue
+    const before = previousByAddress.get(holder.address)
+    if ((!before || before.rank > previousRank) && (!overtaker || holder.rank > overtaker.rank)) {
+      overtaker = holder
+    }
+  }
+  if (!overtaker) return null
+  return previousByAddress.get(overtaker.address)?.display_name || shortenAddress(overtaker.address)
+}
+
+// Send one notification to all of a user's tokens, grouped by client endpoint.
+// Returns how many tokens accepted it and which ones the clients reported as invalid.
+async function sendNotification(
+  tokens: NotificationTokenRow[],
+  notificationId: string,
+  notification: RankNotification,
+  targetUrl: string
+): Promise<{ delivered: number; invalidTokens: string[] }> {
+  const byUrl = new Map<string, string[]>()
+  for (const row of tokens) {
+    byUrl.set(row.url, [...(byUrl.get(row.url) || []), row.token])
+  }
+
+  let delivered = 0
+  const invalidTokens: string[] = []
+
+  for (const [url, urlTokens] of byUrl) {
+    for (let i = 0; i < urlTokens.length; i += NOTIFICATION_CONFIG.TOKENS_PER_REQUEST) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notificationId,
+          title: truncate(notification.title, NOTIFICATION_CONFIG.MAX_TITLE_LENGTH),
+          body: truncate(notification.body, NOTIFICATION_CONFIG.MAX_BODY_LENGTH),
+          targetUrl,
+          tokens: urlTokens.slice(i, i + NOTIFICATION_CONFIG.TOKENS_PER_REQUEST)
+        })
+      })
+
+      if (!response.ok) {
+        console.warn(`⚠️ Notification endpoint ${url} returned ${response.status}`)
+        continue
+      }
+
+      const { result } = await response.json() as SendNotificationResponse
+      delivered += result.successfulTokens.length
+      invalidTokens.push(...result.invalidTokens)
+      if (result.rateLimitedTokens.length > 0) {
+        console.warn(`⏰ ${result.rateLimitedTokens.length} token(s) rate limited by ${url}`)
+      }
+    }
+  }
+
+  return { delivered, invalidTokens }
+}
+
+// Notify subscribed users whose rank changed between `previous` and `next` (the leaderboard
+// before and after refresh `runId`). Returns the number of users notified.
+export async function notifyRankChanges(runId: string, previous: RankedAddress[], next: RankedAddress[]): Promise<number> {
+  const tokens = await fetchAllNotificationTokens()
+  if (tokens.length === 0) return 0
+
+  const neynarApiKey = process.env.VITE_NEYNAR_API_KEY
+  if (!neynarApiKey) {
+    console.warn('⚠️ Missing Neynar API key - skipping rank notifications')
+    return 0
+  }
+
+  const tokensByFid = new Map<number, NotificationTokenRow[]>()
+  for (const row of tokens) {
+    tokensByFid.set(row.fid, [...(tokensByFid.get(row.fid) || []), row])
+  }
+  const fids = [...tokensByFid.keys()]
+
+  const [addressesByFid, preferencesByFid, recentCounts] = await Promise.all([
+    fetchVerifiedAddresses(fids, neynarApiKey),
+    fetchPreferences(fids),
+    fetchRecentCounts(fids)
+  ])
+
+  const previousByAddress = new Map(previous.map(holder => [holder.address, holder]))
+  const nextByAddress = new Map(next.map(holder => [holder.address, holder]))
+  const logRows: NotificationLogRow[] = []
+  const invalidTokens: string[] = []
+
+  for (const [fid, fidTokens] of tokensByFid) {
+    const addresses = addressesByFid.get(fid) || []
+    const before = bestRank(addresses, previousByAddress)
+    const after = bestRank(addresses, nextByAddress)
+    const ranked = after ?? before
+    if (!ranked) continue
+
+    const preferences = preferencesByFid.get(fid) || toNotificationPreferences(null)
+
+    const overtaker = before && after && after.rank > before.rank
+      ? findOvertaker(after.rank, before.rank, new Set(addresses), next, previousByAddress)
+      : null
+    const notification = detectRankChange(before?.rank ?? null, after?.rank ?? null, preferences, overtaker)
+    if (!notification) continue
+
+    if ((recentCounts.get(fid) || 0) >= preferences.maxPerDay) {
+      console.log(`⏭️ fid ${fid} reached ${preferences.maxPerDay} notifications today - skipping ${notification.kind}`)
+      continue
+    }
+
+    // The id makes clients drop duplicates if a run is ever retried
+    const notificationId = `${notification.kind}-${runId}`
+
+    try {
+      const result = await sendNotification(fidTokens, notificationId, notification, getStakerPageUrl(ranked.address))
+      invalidTokens.push(...result.invalidTokens)
+      if (result.delivered > 0) {
+        logRows.push({ fid, kind: notification.kind, notification_id: notificationId, run_id: runId, delivered_count: result.delivered })
+        console.log(`🔔 Sent ${notification.kind} to fid ${fid}`)
+      }
+    } catch (error) {
+      console.error(`❌ Failed to notify fid ${fid}:`, error)
+    }
+  }
+
+  if (logRows.length > 0) {
+    await supabaseRequest('notification_log', {
+      method: 'POST',
+      headers: { 'Prefer': 'return=minimal' },
+      body: JSON.stringify(logRows)
+    })
+  }
+  if (invalidTokens.length > 0) {
+    console.log(`🧹 Removing ${invalidTokens.length} invalid notification token(s)`)
+    await deleteNotificationTokensByValue(invalidTokens)
+  }
+
+  return logRows.length
+}
@@ -0,0 +1,20 @@
+// netlify/functions/_shared/rasterize.ts
+// SVG cards to PNG: Farcaster clients, X and most link unfurlers don't display SVG images.
+// Text is set in the bundled Inter weights (see included_files in netlify.toml); functions have
+// no system fonts to fall back on.
+
+import { Resvg } from '@resvg/resvg-js'
+
+const FONT_FILES = [
+  '400Regular/Inter_400Regular.ttf',
+  '500Medium/Inter_500Medium.ttf',
+  '600SemiBold/Inter_600SemiBold.ttf',
+  '700Bold/Inter_700Bold.ttf',
+].map(file => require.resolve(`@expo-google-fonts/inter/${file}`))
+
+export function rasterizeSvg(svg: string): Buffer {
+  const resvg = new Resvg(svg, {
+    font: { fontFiles: FONT_FILES, loadSystemFonts: false, defaultFontFamily: 'Inter' }
+  })
+  return resvg.render().asPng()
+}
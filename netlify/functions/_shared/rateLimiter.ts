@@ -0,0 +1,33 @@
+// netlify/functions/_shared/rateLimiter.ts
+// Server store for the shared provider budgets in sql/rate_limits.sql. Functions draw from
+// the same buckets as the browser (through the rate-limit function), so a backfill can't
+// exhaust the Neynar plan on its own.
+
+import { supabaseRequest } from './supabase'
+import {
+  SharedRateLimiter,
+  toRateLimitDecision,
+  toRateLimitStatus,
+  type RateLimitStatusRow,
+  type RateLimitStore,
+  type TakeTokensRow
+} from '../../../src/core/rateLimit'
+
+export const serverRateLimitStore: RateLimitStore = {
+  async take(provider, tokens) {
+    const [row] = await supabaseRequest<TakeTokensRow[]>('rpc/take_rate_limit_tokens', {
+      method: 'POST',
+      body: JSON.stringify({ p_provider: provider, p_tokens: tokens })
+    })
+    return toRateLimitDecision(row)
+  },
+
+  async status() {
+    const rows = await supabaseRequest<RateLimitStatusRow[]>(
+      'rate_limit_status?select=provider,capacity,refill_per_hour,tokens_available,total_taken,total_denied&order=provider'
+    )
+    return rows.map(toRateLimitStatus)
+  }
+}
+
+export const rateLimiter = new SharedRateLimiter(serverRateLimitStore)
@@ -0,0 +1,32 @@
+// netlify/functions/_shared/rpc.ts
+// Minimal Base JSON-RPC client for server-side functions
+
+// Override with VITE_BASE_RPC_URL; defaults to Ankr's Base endpoint when a key is set
+export function getBaseRpcUrl(): string {
+  const ankrApiKey = process.env.VITE_ANKR_API_KEY
+  return process.env.VITE_BASE_RPC_URL
+    || (ankrApiKey ? `https://rpc.ankr.com/base/${ankrApiKey}` : 'https://mainnet.base.org')
+}
+
+export async function rpcRequest<T>(method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(getBaseRpcUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', method, params, id: 1 })
+  })
+
+  if (!response.ok) {
+    throw new Error(`RPC error: ${response.status} ${response.statusText}`)
+  }
+
+  const result = await response.json() as { result?: T; error?: { message: string } }
+  if (result.error || result.result === undefined) {
+    throw new Error(`${method} failed: ${result.error?.message || 'empty result'}`)
+  }
+
+  return result.result
+}
+
+export async function fetchBlockNumber(): Promise<bigint> {
+  return BigInt(await rpcRequest<string>('eth_blockNumber', []))
+}
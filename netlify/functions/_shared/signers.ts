@@ -0,0 +1,72 @@
+// netlify/functions/_shared/signers.ts
+// Whether an Ed25519 key is an active signer for a fid, used to verify frame messages.
+// Any Farcaster hub's HTTP API can answer this: FARCASTER_HUB_URL points at a self-hosted
+// (or local stand-in) hub, otherwise Neynar's hosted hub is used with the Neynar API key.
+
+const NEYNAR_HUB_URL = 'https://hub-api.neynar.com'
+
+export interface SignerLookup {
+  name: string
+  isActiveSigner(fid: number, signer: `0x${string}`): Promise<boolean>
+}
+
+interface OnChainSignerEvent {
+  fid?: number
+  signerEventBody?: {
+    key?: string
+    eventType?: string
+  }
+}
+
+// Hub HTTP API lookup (GET /v1/onChainSignersByFid?fid=&signer=). Hubs answer 4xx when the
+// key was never added or has been removed; 5xx and 429 are lookup failures and throw.
+export function createHubSignerLookup(name: string, hubUrl: string, headers: Record<string, string> = {}): SignerLookup {
+  return {
+    name,
+    async isActiveSigner(fid, signer) {
+      const response = await fetch(
+        `${hubUrl.replace(/\/$/, '')}/v1/onChainSignersByFid?fid=${fid}&signer=${signer}`,
+        { headers: { 'accept': 'application/json', ...headers } }
+      )
+
+      if (response.status === 429 || response.status >= 500) {
+        throw new Error(`${name} signer lookup failed: ${response.status}`)
+      }
+      if (!response.ok) {
+        return false
+      }
+
+      const event = await response.json() as OnChainSignerEvent
+      return event.fid === fid
+        && event.signerEventBody?.key?.toLowerCase() === signer.toLowerCase()
+        && event.signerEventBody?.eventType === 'SIGNER_EVENT_TYPE_ADD'
+    }
+  }
+}
+
+// Local development only (ALLOW_UNVERIFIED_SIGNERS=true): accepts any signer whose signature checks out
+const unverifiedSignerLookup: SignerLookup = {
+  name: 'unverified',
+  async isActiveSigner(fid, signer) {
+    console.warn(`⚠️ ALLOW_UNVERIFIED_SIGNERS is set - accepting signer ${signer} for fid ${fid} without checking it`)
+    return true
+  }
+}
+
+// Signer lookup from the environment. Without a hub or Neynar key, signed messages are
+// rejected (fail closed) unless ALLOW_UNVERIFIED_SIGNERS=true is set explicitly - never set
+// it on a deploy: NODE_ENV is not reliably available to functions at runtime, so it can't
+// be used to tell local development apart.
+export function getSignerLookup(): SignerLookup | null {
+  const hubUrl = process.env.FARCASTER_HUB_URL
+  if (hubUrl) {
+    return createHubSignerLookup('hub', hubUrl)
+  }
+
+  const neynarApiKey = process.env.VITE_NEYNAR_API_KEY
+  if (neynarApiKey) {
+    return createHubSignerLookup('neynar', NEYNAR_HUB_URL, { 'x-api-key': neynarApiKey })
+  }
+
+  return process.env.ALLOW_UNVERIFIED_SIGNERS === 'true' ? unverifiedSignerLookup : null
+}
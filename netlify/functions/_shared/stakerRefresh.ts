@@ -0,0 +1,222 @@
+// netlify/functions/_shared/stakerRefresh.ts
+// Server-side staking data refresh: fetch holders, diff against tipn_stakers,
+// apply the changes, append a snapshot and record the run in refresh_runs
+import { randomUUID } from 'node:crypto'
+import { fetchTopHolders } from './ankr'
+import { fetchBlockNumber } from './rpc'
+import { supabaseRequest } from './supabase'
+import { notifyRankChanges } from './rankNotifications'
+
+const REFRESH_CONFIG = {
+  LIMIT: 1000,
+  WRITE_BATCH_SIZE: 500,
+  // A run still marked "running" after this long is assumed to have crashed
+  STALE_RUN_MS: 10 * 60 * 1000,
+}
+
+export type RefreshTrigger = 'scheduled' | 'manual'
+
+export interface RefreshDiff {
+  added: number
+  removed: number
+  amountChanged: number
+  rankChanged: number
+  unchanged: number
+}
+
+export interface RefreshResult {
+  runId: string
+  status: 'succeeded' | 'skipped'
+  blockNumber: string | null
+  holderCount: number
+  diff: RefreshDiff | null
+  snapshotWritten: boolean
+  notificationsSent: number
+}
+
+interface CurrentRow {
+  address: string
+  amount: string
+  rank: number
+  display_name: string | null
+}
+
+interface HolderRow {
+  address: string
+  amount: bigint
+  rank: number
+}
+
+// Compare fresh holders with the current table
+function diffHolders(current: CurrentRow[], fresh: HolderRow[]): {
+  diff: RefreshDiff
+  changedRows: HolderRow[]
+  removedAddresses: string[]
+} {
+  const currentByAddress = new Map(current.map(row => [row.address, row]))
+  const freshAddresses = new Set(fresh.map(holder => holder.address))
+  const diff: RefreshDiff = { added: 0, removed: 0, amountChanged: 0, rankChanged: 0, unchanged: 0 }
+  const changedRows: HolderRow[] = []
+
+  for (const holder of fresh) {
+    const existing = currentByAddress.get(holder.address)
+    if (!existing) {
+      diff.added++
+      changedRows.push(holder)
+      continue
+    }
+
+    const amountChanged = BigInt(existing.amount) !== holder.amount
+    const rankChanged = existing.rank !== holder.rank
+    if (amountChanged) diff.amountChanged++
+    if (rankChanged) diff.rankChanged++
+    if (amountChanged || rankChanged) {
+      changedRows.push(holder)
+    } else {
+      diff.unchanged++
+    }
+  }
+
+  const removedAddresses = current
+    .map(row => row.address)
+    .filter(address => !freshAddresses.has(address))
+  diff.removed = removedAddresses.length
+
+  return { diff, changedRows, removedAddresses }
+}
+
+export async function updateRun(runId: string, fields: Record<string, unknown>): Promise<void> {
+  await supabaseRequest(`refresh_runs?id=eq.${runId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(fields)
+  })
+}
+
+// Insert a "running" row and return its id (also used as the snapshot run_id)
+export async function startRun(kind: 'holders' | 'enrichment', trigger: RefreshTrigger, source: string): Promise<string> {
+  const runId = randomUUID()
+  await supabaseRequest('refresh_runs', {
+    method: 'POST',
+    body: JSON.stringify({ id: runId, kind, trigger, source, status: 'running' })
+  })
+  return runId
+}
+
+// True if another holder refresh started recently and hasn't finished
+async function isRunInProgress(): Promise<boolean> {
+  const since = new Date(Date.now() - REFRESH_CONFIG.STALE_RUN_MS).toISOString()
+  const running = await supabaseRequest<Array<{ id: string }>>(
+    `refresh_runs?select=id&kind=eq.holders&status=eq.running&started_at=gte.${since}&limit=1`
+  )
+  return running.length > 0
+}
+
+export async function runStakerRefresh(trigger: RefreshTrigger): Promise<RefreshResult> {
+  if (await isRunInProgress()) {
+    console.log('⏭️ Another refresh is already running - skipping')
+    return { runId: '', status: 'skipped', blockNumber: null, holderCount: 0, diff: null, snapshotWritten: false, notificationsSent: 0 }
+  }
+
+  const runId = await startRun('holders', trigger, 'ankr')
+
+  try {
+    console.log(`🔄 Refresh ${runId} (${trigger}) starting...`)
+
+    // Block height read first, so the recorded block is never newer than the holder data
+    const blockNumber = await fetchBlockNumber()
+    await updateRun(runId, { block_number: blockNumber.toString() })
+
+    const [fresh, current] = await Promise.all([
+      fetchTopHolders(REFRESH_CONFIG.LIMIT),
+      supabaseRequest<CurrentRow[]>(`tipn_stakers?select=address,amount::text,rank,display_name&limit=${REFRESH_CONFIG.LIMIT * 2}`)
+    ])
+
+    if (fresh.length === 0) {
+      throw new Error('Holder source returned no stakers - refusing to clear the leaderboard')
+    }
+
+    const { diff, changedRows, removedAddresses } = diffHolders(current, fresh)
+    console.log(`📊 Diff: +${diff.added} -${diff.removed}, ${diff.amountChanged} amounts and ${diff.rankChanged} ranks changed`)
+
+    const updatedAt = new Date().toISOString()
+
+    // Upsert only changed rows; merge-duplicates leaves identity columns untouched
+    for (let i = 0; i < changedRows.length; i += REFRESH_CONFIG.WRITE_BATCH_SIZE) {
+      const rows = changedRows.slice(i, i + REFRESH_CONFIG.WRITE_BATCH_SIZE).map(holder => ({
+        address: holder.address,
+        amount: holder.amount.toString(),
+        rank: holder.rank,
+        updated_at: updatedAt
+      }))
+
+      await supabaseRequest('tipn_stakers?on_conflict=address', {
+        method: 'POST',
+        headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+        body: JSON.stringify(rows)
+      })
+    }
+
+    for (let i = 0; i < removedAddresses.length; i += 100) {
+      const batch = removedAddresses.slice(i, i + 100)
+      await supabaseRequest(`tipn_stakers?address=in.(${batch.join(',')})`, { method: 'DELETE' })
+    }
+
+    // Snapshots only when the ranking moved, so history isn't padded with identical runs
+    const snapshotWritten = changedRows.length > 0 || removedAddresses.length > 0
+    if (snapshotWritten) {
+      for (let i = 0; i < fresh.length; i += REFRESH_CONFIG.WRITE_BATCH_SIZE) {
+        const rows = fresh.slice(i, i + REFRESH_CONFIG.WRITE_BATCH_SIZE).map(holder => ({
+          run_id: runId,
+          captured_at: updatedAt,
+          address: holder.address,
+          amount: holder.amount.toString(),
+          rank: holder.rank
+        }))
+
+        await supabaseRequest('tipn_staker_snapshots', {
+          method: 'POST',
+          headers: { 'Prefer': 'return=minimal' },
+          body: JSON.stringify(rows)
+        })
+      }
+
+      // Listed only once all of its rows are in, so readers never pick a partial run
+      await supabaseRequest('tipn_snapshot_runs', {
+        method: 'POST',
+        headers: { 'Prefer': 'return=minimal' },
+        body: JSON.stringify({ run_id: runId, captured_at: updatedAt, staker_count: fresh.length })
+      })
+    }
+
+    await updateRun(runId, {
+      status: 'succeeded',
+      finished_at: new Date().toISOString(),
+      holder_count: fresh.length,
+      added_count: diff.added,
+      removed_count: diff.removed,
+      amount_changed_count: diff.amountChanged,
+      rank_changed_count: diff.rankChanged,
+      snapshot_written: snapshotWritten
+    })
+
+    // Notifications are best effort and never fail the refresh
+    const notificationsSent = snapshotWritten
+      ? await notifyRankChanges(runId, current, fresh).catch((error) => {
+          console.error('❌ Rank notifications failed:', error)
+          return 0
+        })
+      : 0
+
+    console.log(`✅ Refresh ${runId} complete${notificationsSent > 0 ? ` (${notificationsSent} users notified)` : ''}`)
+    return { runId, status: 'succeeded', blockNumber: blockNumber.toString(), holderCount: fresh.length, diff, snapshotWritten, notificationsSent }
+  } catch (error) {
+    console.error(`❌ Refresh ${runId} failed:`, error)
+    await updateRun(runId, {
+      status: 'failed',
+      finished_at: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+      error_count: 1
+    }).catch(updateError => console.error('Failed to record refresh failure:', updateError))
+    throw error
+  }
+}
@@ -0,0 +1,125 @@
+// netlify/functions/_shared/stakingIndexer.ts
+// Server-side staking indexer: replays Transfer logs from the checkpoint and writes balances
+// and the new checkpoint with the service role. The browser only reads tipn_indexed_balances.
+import { createPublicClient, http } from 'viem'
+import { BASE_MAINNET } from '../../../src/config/blockchain'
+import { DEFAULT_CHUNK_SIZE, replayStakingTransfers } from '../../../src/core/stakingTransfers'
+import { getBaseRpcUrl } from './rpc'
+import { supabaseRequest } from './supabase'
+
+const INDEXER_ID = 'staking_transfers'
+const INDEXER_CONFIG = {
+  // Staking contract deployment block; there is no safe default (0 would replay all of Base)
+  START_BLOCK: process.env.VITE_INDEXER_START_BLOCK ? BigInt(process.env.VITE_INDEXER_START_BLOCK) : null,
+  CHUNK_SIZE: process.env.VITE_INDEXER_CHUNK_SIZE ? BigInt(process.env.VITE_INDEXER_CHUNK_SIZE) : DEFAULT_CHUNK_SIZE,
+  PAGE_SIZE: 1000,
+  // Scheduled functions stop after 30 seconds; the next run resumes from the checkpoint
+  TIME_BUDGET_MS: 20 * 1000,
+}
+
+export interface IndexerResult {
+  startBlock: string
+  lastIndexedBlock: string
+  headBlock: string
+  caughtUp: boolean
+}
+
+interface CheckpointRow {
+  start_block: string
+  last_indexed_block: string
+}
+
+interface BalanceRow {
+  address: string
+  balance: string
+}
+
+async function loadCheckpoint(): Promise<{ startBlock: bigint; lastIndexedBlock: bigint } | null> {
+  const rows = await supabaseRequest<CheckpointRow[]>(
+    `tipn_indexer_state?select=start_block::text,last_indexed_block::text&id=eq.${INDEXER_ID}&limit=1`
+  )
+  if (!rows[0]) return null
+
+  return {
+    startBlock: BigInt(rows[0].start_block),
+    lastIndexedBlock: BigInt(rows[0].last_indexed_block),
+  }
+}
+
+// Persisted balances, paging through PostgREST's row limit
+async function loadBalances(): Promise<Map<string, bigint>> {
+  const balances = new Map<string, bigint>()
+
+  for (let offset = 0; ; offset += INDEXER_CONFIG.PAGE_SIZE) {
+    const rows = await supabaseRequest<BalanceRow[]>(
+      `tipn_indexed_balances?select=address,balance::text&order=address.asc&limit=${INDEXER_CONFIG.PAGE_SIZE}&offset=${offset}`
+    )
+    for (const row of rows) {
+      balances.set(row.address, BigInt(row.balance))
+    }
+    if (rows.length < INDEXER_CONFIG.PAGE_SIZE) break
+  }
+
+  return balances
+}
+
+// Index from the checkpoint (first run: VITE_INDEXER_START_BLOCK, required) towards the chain head.
+// Each chunk's balance changes and the new checkpoint are persisted atomically.
+export async function runStakingIndexer(): Promise<IndexerResult> {
+  const client = createPublicClient({ chain: BASE_MAINNET, transport: http(getBaseRpcUrl()) })
+  const deadline = Date.now() + INDEXER_CONFIG.TIME_BUDGET_MS
+
+  const checkpoint = await loadCheckpoint()
+  const startBlock = checkpoint?.startBlock ?? INDEXER_CONFIG.START_BLOCK
+  if (startBlock === null) {
+    throw new Error('Missing indexer start block (VITE_INDEXER_START_BLOCK)')
+  }
+
+  const fromBlock = checkpoint ? checkpoint.lastIndexedBlock + 1n : startBlock
+  const headBlock = await client.getBlockNumber()
+  let lastIndexedBlock = fromBlock - 1n
+
+  if (fromBlock > headBlock) {
+    console.log(`✅ Indexer already at block ${lastIndexedBlock}`)
+  } else {
+    console.log(`🔄 Indexing staking transfers from block ${fromBlock} to ${headBlock}...`)
+
+    const balances = checkpoint ? await loadBalances() : new Map<string, bigint>()
+
+    await replayStakingTransfers(client, {
+      fromBlock,
+      toBlock: headBlock,
+      balances,
+      chunkSize: INDEXER_CONFIG.CHUNK_SIZE,
+      shouldStop: () => Date.now() > deadline,
+      onChunk: async ({ toBlock: chunkEnd, changed }) => {
+        const rows = [...changed].map(address => ({
+          address,
+          balance: (balances.get(address) ?? 0n).toString(),
+        }))
+
+        await supabaseRequest('rpc/tipn_apply_indexer_batch', {
+          method: 'POST',
+          body: JSON.stringify({
+            p_indexer: INDEXER_ID,
+            p_start_block: startBlock.toString(),
+            p_last_block: chunkEnd.toString(),
+            p_balances: rows,
+          })
+        })
+        lastIndexedBlock = chunkEnd
+      },
+    })
+
+    console.log(lastIndexedBlock === headBlock
+      ? `✅ Indexer caught up to block ${headBlock}`
+      : `⏸️ Indexer stopped at block ${lastIndexedBlock} of ${headBlock} - resuming next run`)
+  }
+
+  return {
+    startBlock: startBlock.toString(),
+    lastIndexedBlock: lastIndexedBlock.toString(),
+    headBlock: headBlock.toString(),
+    caughtUp: lastIndexedBlock >= headBlock,
+  }
+}
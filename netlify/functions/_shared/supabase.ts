@@ -0,0 +1,37 @@
+// netlify/functions/_shared/supabase.ts
+// Supabase REST access for server-side functions. Writes use the service role key,
+// which is never exposed to the browser (no VITE_ prefix).
+
+export function getSupabaseConfig(): { url: string; serviceKey: string } {
+  const url = process.env.VITE_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !serviceKey) {
+    throw new Error('Missing Supabase configuration (VITE_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)')
+  }
+
+  return { url, serviceKey }
+}
+
+// Call the Supabase REST API and return the parsed JSON body (null for empty responses)
+export async function supabaseRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { url, serviceKey } = getSupabaseConfig()
+
+  const response = await fetch(`${url}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      'apikey': serviceKey,
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+      ...init.headers
+    }
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Supabase error: ${response.status} - ${errorText}`)
+  }
+
+  const text = await response.text()
+  return (text ? JSON.parse(text) : null) as T
+}
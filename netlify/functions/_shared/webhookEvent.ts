@@ -0,0 +1,109 @@
+// netlify/functions/_shared/webhookEvent.ts
+// Decodes and verifies the Mini App webhook events Farcaster clients send when a user adds or
+// removes the app or toggles its notifications. Events are JSON Farcaster Signatures: base64url
+// header, payload and an Ed25519 signature over `header.payload` by the user's app key.
+
+import { verifyEd25519 } from './ed25519'
+import type { SignerLookup } from './signers'
+
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookValidationError'
+  }
+}
+
+export interface NotificationDetails {
+  url: string
+  token: string
+}
+
+export type MiniAppEvent =
+  | { event: 'frame_added'; notificationDetails: NotificationDetails | null }
+  | { event: 'frame_removed' }
+  | { event: 'notifications_enabled'; notificationDetails: NotificationDetails }
+  | { event: 'notifications_disabled' }
+
+export interface VerifiedWebhookEvent {
+  fid: number
+  appKey: `0x${string}`
+  payload: MiniAppEvent
+}
+
+interface JsonFarcasterSignature {
+  header: string
+  payload: string
+  signature: string
+}
+
+function decodeJson(part: string, name: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'))
+    if (typeof parsed === 'object' && parsed !== null) return parsed as Record<string, unknown>
+  } catch {
+    // Reported below
+  }
+  throw new WebhookValidationError(`Event ${name} is not base64url JSON`)
+}
+
+function parseNotificationDetails(value: unknown): NotificationDetails | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { url, token } = value as Record<string, unknown>
+  if (typeof url !== 'string' || typeof token !== 'string' || !token || !/^https:\/\//.test(url)) {
+    throw new WebhookValidationError('Invalid notificationDetails')
+  }
+  return { url, token }
+}
+
+function parseEvent(payload: Record<string, unknown>): MiniAppEvent {
+  switch (payload.event) {
+    case 'frame_added':
+      return { event: 'frame_added', notificationDetails: parseNotificationDetails(payload.notificationDetails) }
+    case 'frame_removed':
+      return { event: 'frame_removed' }
+    case 'notifications_enabled': {
+      const notificationDetails = parseNotificationDetails(payload.notificationDetails)
+      if (!notificationDetails) {
+        throw new WebhookValidationError('notifications_enabled without notificationDetails')
+      }
+      return { event: 'notifications_enabled', notificationDetails }
+    }
+    case 'notifications_disabled':
+      return { event: 'notifications_disabled' }
+    default:
+      throw new WebhookValidationError(`Unknown event ${String(payload.event)}`)
+  }
+}
+
+// Check the signature, then that the signing app key is active for the fid. Throws
+// WebhookValidationError for events that fail a check; signer lookup failures propagate as-is.
+export async function verifyWebhookEvent(body: unknown, signerLookup: SignerLookup): Promise<VerifiedWebhookEvent> {
+  const jfs = body as Partial<JsonFarcasterSignature> | null
+  if (typeof jfs?.header !== 'string' || typeof jfs.payload !== 'string' || typeof jfs.signature !== 'string') {
+    throw new WebhookValidationError('Event is not a JSON Farcaster Signature')
+  }
+
+  const header = decodeJson(jfs.header, 'header')
+  const fid = header.fid
+  const key = header.key
+  if (typeof fid !== 'number' || !Number.isInteger(fid) || fid <= 0) {
+    throw new WebhookValidationError('Event header has no fid')
+  }
+  // Clients sign webhook events with the app key they hold for the user
+  if (header.type !== 'app_key' || typeof key !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(key)) {
+    throw new WebhookValidationError('Event is not signed with an app key')
+  }
+
+  const signed = Buffer.from(`${jfs.header}.${jfs.payload}`, 'utf8')
+  const signature = Buffer.from(jfs.signature, 'base64url')
+  if (!verifyEd25519(signed, signature, Buffer.from(key.slice(2), 'hex'))) {
+    throw new WebhookValidationError('Invalid event signature')
+  }
+
+  const appKey = key.toLowerCase() as `0x${string}`
+  if (!(await signerLookup.isActiveSigner(fid, appKey))) {
+    throw new WebhookValidationError(`App key ${appKey} is not active for fid ${fid}`)
+  }
+
+  return { fid, appKey, payload: parseEvent(decodeJson(jfs.payload, 'payload')) }
+}
@@ -1,22 +1,16 @@
 // netlify/functions/enrich-identities.ts
 import { Handler } from '@netlify/functions'
+import { startRun, updateRun } from './_shared/stakerRefresh'
+import { supabaseRequest } from './_shared/supabase'
+import { dueFilter, enrichmentPriority, nextSchedule, type ScheduleRow, type ScheduleUpdate } from './_shared/enrichmentSchedule'
+import { getBaseRpcUrl } from './_shared/rpc'
+import { rateLimiter } from './_shared/rateLimiter'
+import { batchReverseResolveBasenames, batchReverseResolveEns, createNameClients } from '../../src/core/names'
+import { parseIdentityPriority, resolveIdentity } from '../../src/core/identity'
+import { chunkForBulkLookup, fetchFarcasterUsersByAddress, type FarcasterProfile } from '../../src/core/farcaster'
 
 // Type definitions
-interface Staker {
-  address: string
-  rank: number
-}
-
-interface FarcasterUser {
-  fid: number
-  username: string
-  displayName: string
-  pfpUrl: string
-  bio: string
-  followerCount: number
-}
-
-interface UpdateData {
+interface UpdateData extends ScheduleUpdate {
   fid: number | null
   farcaster_username: string | null
   farcaster_display_name: string | null
@@ -33,205 +27,170 @@ interface UpdateData {
   identity_last_updated: string
 }
 
-// Simple, reliable background enrichment
-export const handler: Handler = async (event, context) => {
-  const supabaseUrl = process.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY
-  const neynarApiKey = process.env.VITE_NEYNAR_API_KEY
+// ENS (mainnet) and Basename (Base) resolution shared with src/utils/ens.ts
+const ankrApiKey = process.env.VITE_ANKR_API_KEY
+const nameClients = createNameClients({
+  mainnet: ankrApiKey ? `https://rpc.ankr.com/eth/${ankrApiKey}` : 'https://rpc.ankr.com/eth',
+  base: getBaseRpcUrl()
+})
+
+// Same display priority as the app (VITE_IDENTITY_PRIORITY)
+const IDENTITY_PRIORITY = parseIdentityPriority(process.env.VITE_IDENTITY_PRIORITY)
+
+const ENRICH_CONFIG = {
+  // Due stakers considered per run (the table holds the top 1000)
+  CANDIDATE_LIMIT: 1000,
+  // Stakers enriched per run, highest priority first; Farcaster accounts come from one bulk Neynar request and
+  // ENS/Basenames from a few multicalls
+  BATCH_SIZE: 300,
+  // Database updates sent at the same time
+  CONCURRENCY: 10,
+}
+
+// Farcaster accounts for all addresses, one bulk request (and one token of the shared Neynar
+// budget) per NEYNAR_BULK_ADDRESS_LIMIT addresses. Throws if Neynar fails or the budget is
+// spent, so no staker is saved as "no Farcaster account".
+async function lookupFarcasterUsers(addresses: string[], neynarApiKey: string): Promise<Map<string, FarcasterProfile | null>> {
+  const users = new Map<string, FarcasterProfile | null>()
+
+  for (const chunk of chunkForBulkLookup(addresses)) {
+    await rateLimiter.acquire('neynar')
+    const chunkUsers = await fetchFarcasterUsersByAddress(chunk, neynarApiKey)
+    chunkUsers.forEach((user, address) => users.set(address, user))
+  }
+
+  console.log(`✨ Found ${[...users.values()].filter(Boolean).length} Farcaster users for ${addresses.length} addresses`)
+  return users
+}
 
-  console.log('🔍 Environment check:', {
-    hasSupabaseUrl: !!supabaseUrl,
-    hasSupabaseKey: !!supabaseAnonKey,
-    hasNeynarKey: !!neynarApiKey
+// Name from a batch lookup; addresses missing from the batch had a failed lookup
+function batchedName(names: Map<string, string | null>, address: string, kind: string): string | null {
+  const name = names.get(address.toLowerCase())
+  if (name === undefined) {
+    throw new Error(`${kind} lookup failed`)
+  }
+  return name
+}
+
+async function updateStaker(address: string, fields: Partial<UpdateData>): Promise<void> {
+  await supabaseRequest(`tipn_stakers?address=eq.${address}`, {
+    method: 'PATCH',
+    body: JSON.stringify(fields)
   })
+}
 
-  if (!supabaseUrl || !supabaseAnonKey) {
+// Scheduled enrichment: due stakers by rank and staleness, with per-address backoff
+export const handler: Handler = async () => {
+  const neynarApiKey = process.env.VITE_NEYNAR_API_KEY
+
+  // Without Farcaster lookups every staker would be saved as having no Farcaster account,
+  // wiping the profiles already stored, so don't run at all
+  if (!neynarApiKey) {
+    console.error('❌ No Neynar API key - skipping identity enrichment')
     return {
       statusCode: 500,
-      body: JSON.stringify({ error: 'Missing Supabase environment variables' })
+      body: JSON.stringify({
+        error: 'Enrichment skipped',
+        details: 'Missing VITE_NEYNAR_API_KEY',
+        timestamp: new Date().toISOString()
+      })
     }
   }
 
-  if (!neynarApiKey) {
-    console.log('⚠️ No Neynar API key - will skip Farcaster lookups')
+  // Record the run in refresh_runs (best effort - enrichment still runs if it can't be recorded)
+  const runId = await startRun('enrichment', 'scheduled', 'neynar').catch((error) => {
+    console.warn('⚠️ Could not record enrichment run:', error?.message || error)
+    return null
+  })
+  const finishRun = async (fields: Record<string, unknown>) => {
+    if (!runId) return
+    await updateRun(runId, { finished_at: new Date().toISOString(), ...fields })
+      .catch((error) => console.warn('⚠️ Could not update enrichment run:', error?.message || error))
   }
 
   try {
     console.log('🔄 Scheduled identity enrichment starting...')
     
-    // Get 3 stakers that need enrichment
-    const supabaseResponse = await fetch(
-      `${supabaseUrl}/rest/v1/tipn_stakers?select=address,rank&or=(identity_last_updated.is.null,has_verified_identity.eq.false)&order=rank.asc&limit=3`,
-      {
-        headers: {
-          'apikey': supabaseAnonKey,
-          'Authorization': `Bearer ${supabaseAnonKey}`,
-          'Content-Type': 'application/json'
-        }
-      }
+    // Stakers that were never enriched or are past their next refresh, most urgent first
+    const now = Date.now()
+    const dueStakers = await supabaseRequest<ScheduleRow[]>(
+      `tipn_stakers?select=address,rank,identity_attempts,identity_next_refresh_at&${dueFilter(now)}&order=rank.asc&limit=${ENRICH_CONFIG.CANDIDATE_LIMIT}`
     )
-
-    if (!supabaseResponse.ok) {
-      const errorText = await supabaseResponse.text()
-      console.error('Supabase error:', supabaseResponse.status, errorText)
-      throw new Error(`Supabase error: ${supabaseResponse.status} - ${errorText}`)
-    }
-
-    const stakersToEnrich = (await supabaseResponse.json()) as Staker[]
-    console.log(`📊 Found ${stakersToEnrich.length} stakers to enrich`)
+    const stakersToEnrich = dueStakers
+      .sort((a, b) => enrichmentPriority(b, now) - enrichmentPriority(a, now))
+      .slice(0, ENRICH_CONFIG.BATCH_SIZE)
+    console.log(`📊 ${dueStakers.length} stakers due, enriching ${stakersToEnrich.length}`)
     
-    if (!stakersToEnrich || stakersToEnrich.length === 0) {
-      console.log('✅ All stakers already enriched')
+    if (stakersToEnrich.length === 0) {
+      console.log('✅ No identities due for enrichment')
+      await finishRun({ status: 'succeeded', enriched_count: 0 })
       return {
         statusCode: 200,
-        body: JSON.stringify({ message: 'All stakers already enriched', enriched: 0 })
+        body: JSON.stringify({ message: 'No identities due for enrichment', enriched: 0 })
       }
     }
 
     let enriched = 0
+    const errors: Array<{ address: string; message: string }> = []
     
-    for (const staker of stakersToEnrich) {
-      try {
-        console.log(`🔍 Enriching rank #${staker.rank}: ${staker.address}`)
-        
-        // Try Farcaster lookup (only if API key available)
-        let farcasterUser: FarcasterUser | null = null
-        if (neynarApiKey) {
-          try {
-            const farcasterResponse = await fetch(
-              `https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${staker.address}`,
-              {
-                headers: {
-                  'accept': 'application/json',
-                  'api_key': neynarApiKey,
-                },
-              }
-            )
-
-            if (farcasterResponse.ok) {
-              const farcasterData: any = await farcasterResponse.json()
-              const addressData = farcasterData[staker.address.toLowerCase()]
-              if (addressData && addressData.length > 0) {
-                const userData = addressData[0]
-                farcasterUser = {
-                  fid: userData.fid,
-                  username: userData.username,
-                  displayName: userData.display_name || userData.username,
-                  pfpUrl: userData.pfp_url || '',
-                  bio: userData.profile?.bio?.text || '',
-                  followerCount: userData.follower_count || 0,
-                }
-                console.log(`✨ Found Farcaster user: ${farcasterUser.displayName}`)
-              }
-            } else {
-              console.log(`ℹ️ Farcaster API returned ${farcasterResponse.status} for ${staker.address}`)
-            }
-          } catch (farcasterError: any) {
-            console.log(`ℹ️ No Farcaster account for ${staker.address}:`, farcasterError?.message || 'Unknown error')
-          }
-        }
-
-        // Try ENS lookup using public RPC
-        let ensName: string | null = null
-        try {
-          // Use a simple ENS reverse lookup
-          const ensResponse = await fetch('https://eth.llamarpc.com', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              jsonrpc: '2.0',
-              method: 'eth_call',
-              params: [{
-                to: '0xa2c122be93b0074270ebee7f6b7292c7deb45047', // ENS Reverse Registrar
-                data: `0x691f3431000000000000000000000000${staker.address.slice(2).toLowerCase()}`
-              }, 'latest'],
-              id: 1
-            })
-          })
-          
-          if (ensResponse.ok) {
-            const ensData: any = await ensResponse.json()
-            if (ensData.result && ensData.result !== '0x' && ensData.result.length > 2) {
-              // This would need proper decoding, but for now we'll skip ENS
-              console.log(`ℹ️ ENS lookup not implemented yet for ${staker.address}`)
-            }
-          }
-        } catch (ensError: any) {
-          console.log(`ℹ️ ENS lookup failed for ${staker.address}:`, ensError?.message || 'Unknown error')
-        }
+    const addresses = stakersToEnrich.map(staker => staker.address)
+    const [farcasterUsers, ensNames, basenames] = await Promise.all([
+      lookupFarcasterUsers(addresses, neynarApiKey),
+      rateLimiter.acquire('ens').then(() => batchReverseResolveEns(nameClients.mainnet, addresses)),
+      rateLimiter.acquire('basename').then(() => batchReverseResolveBasenames(nameClients.base, addresses))
+    ])
 
-        // Determine identity
-        let displayName: string
-        let identityType: string
-        let hasVerifiedIdentity: boolean
-        let profileUrl: string | null = null
+    const enrichStaker = async (staker: ScheduleRow) => {
+      const previousAttempts = staker.identity_attempts || 0
 
-        if (farcasterUser) {
-          displayName = farcasterUser.displayName
-          identityType = 'farcaster'
-          hasVerifiedIdentity = true
-          profileUrl = `https://warpcast.com/${farcasterUser.username}`
-        } else if (ensName) {
-          displayName = ensName
-          identityType = 'ens'
-          hasVerifiedIdentity = true
-        } else {
-          displayName = `${staker.address.slice(0, 6)}...${staker.address.slice(-4)}`
-          identityType = 'address'
-          hasVerifiedIdentity = false
-        }
-
-        // Update database
-        const updateData: UpdateData = {
+      try {
+        // Farcaster, Basename and ENS through the shared pipeline. A failed lookup throws,
+        // so the staker keeps its identity and is retried after the error backoff
+        const identity = await resolveIdentity(staker.address, {
+          farcaster: async (address) => farcasterUsers.get(address.toLowerCase()) ?? null,
+          ens: async (address) => batchedName(ensNames, address, 'ENS'),
+          basename: async (address) => batchedName(basenames, address, 'Basename')
+        }, IDENTITY_PRIORITY)
+        const farcasterUser = identity.farcaster
+        const { displayName, identityType } = identity
+
+        await updateStaker(staker.address, {
           fid: farcasterUser?.fid || null,
           farcaster_username: farcasterUser?.username || null,
           farcaster_display_name: farcasterUser?.displayName || null,
           farcaster_pfp_url: farcasterUser?.pfpUrl || null,
           farcaster_bio: farcasterUser?.bio || null,
           farcaster_follower_count: farcasterUser?.followerCount || 0,
-          farcaster_following_count: 0,
-          ens_name: ensName,
-          basename: null,
-          has_verified_identity: hasVerifiedIdentity,
+          farcaster_following_count: farcasterUser?.followingCount || 0,
+          ens_name: identity.ens,
+          basename: identity.basename,
+          has_verified_identity: identity.hasVerifiedIdentity,
           identity_type: identityType,
           display_name: displayName,
-          profile_url: profileUrl,
-          identity_last_updated: new Date().toISOString()
-        }
-
-        console.log(`💾 Updating database for ${staker.address}...`)
-        
-        const updateResponse = await fetch(
-          `${supabaseUrl}/rest/v1/tipn_stakers?address=eq.${staker.address}`,
-          {
-            method: 'PATCH',
-            headers: {
-              'apikey': supabaseAnonKey,
-              'Authorization': `Bearer ${supabaseAnonKey}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(updateData)
-          }
-        )
-
-        if (!updateResponse.ok) {
-          const errorText = await updateResponse.text()
-          console.error('Update error:', updateResponse.status, errorText)
-          throw new Error(`Update failed: ${updateResponse.status} - ${errorText}`)
-        }
+          profile_url: identity.profileUrl,
+          identity_last_updated: new Date().toISOString(),
+          ...nextSchedule(previousAttempts, identity.hasVerifiedIdentity ? 'verified' : 'empty')
+        })
 
         enriched++
-        console.log(`✅ Enriched ${staker.address}: ${displayName} (${identityType})`)
-        
-        // Rate limiting delay
-        await new Promise(resolve => setTimeout(resolve, 2000))
+        console.log(`✅ Enriched rank #${staker.rank} ${staker.address}: ${displayName} (${identityType})`)
         
       } catch (error: any) {
-        console.warn(`Failed to enrich ${staker.address}:`, error?.message || 'Unknown error')
+        const message = error?.message || 'Unknown error'
+        console.warn(`Failed to enrich ${staker.address}:`, message)
+        errors.push({ address: staker.address, message })
+
+        await updateStaker(staker.address, nextSchedule(previousAttempts, 'error', message))
+          .catch((updateError) => console.warn(`⚠️ Could not record failure for ${staker.address}:`, updateError?.message || updateError))
       }
     }
 
+    for (let i = 0; i < stakersToEnrich.length; i += ENRICH_CONFIG.CONCURRENCY) {
+      await Promise.all(stakersToEnrich.slice(i, i + ENRICH_CONFIG.CONCURRENCY).map(enrichStaker))
+    }
+
     console.log(`🎉 Enrichment complete: ${enriched} stakers processed`)
+    await finishRun({ status: 'succeeded', enriched_count: enriched, error_count: errors.length, errors })
 
     return {
       statusCode: 200,
@@ -239,12 +198,14 @@ export const handler: Handler = async (event, context) => {
         message: 'Enrichment completed', 
         enriched,
         total: stakersToEnrich.length,
+        due: dueStakers.length,
         timestamp: new Date().toISOString()
       })
     }
 
   } catch (error: any) {
     console.error('❌ Scheduled enrichment failed:', error)
+    await finishRun({ status: 'failed', error: error?.message || 'Unknown error', error_count: 1 })
     return {
       statusCode: 500,
       body: JSON.stringify({ 
@@ -254,4 +215,4 @@ export const handler: Handler = async (event, context) => {
       })
     }
   }
-}
\ No newline at end of file
+}
@@ -1,19 +1,22 @@
-// netlify/functions/frame.ts
+// netlify/functions/frame-handler.ts
+// Legacy (vNext) post frame, kept for casts that embedded it before the app moved to Mini App
+// embeds (index.html and netlify/functions/staker-embed)
 import { Handler, HandlerEvent, HandlerContext, HandlerResponse } from '@netlify/functions'
+import { fetchHolderPages, TIPN_STAKING_ADDRESS } from './_shared/ankr'
+import { rpcRequest } from './_shared/rpc'
+import { supabaseRequest } from './_shared/supabase'
+import { fetchRankDayAgo } from './_shared/rankHistory'
+import { FrameValidationError, verifyFrameMessage, type FrameActionMessage } from './_shared/frameMessage'
+import { getSignerLookup } from './_shared/signers'
+import { signCardPayload } from './_shared/cardSignature'
+import { getFarcasterComposeUrl, shortenAddress } from '../../src/core/identity'
+import { formatTipnCeil, rankAgainstHolders } from '../../src/core/rankLookup'
+import { LEADERBOARD_PAGE_SIZE, getLeaderboardCardUrl, getRankCardUrl } from '../../src/core/rankCard'
+import { APP_URL } from '../../src/config/blockchain'
+import { getStakerPageUrl } from '../../src/core/miniApp'
 
+// Frame clients also send untrustedData, but only the signed message in trustedData is read
 interface FrameRequest {
-  untrustedData: {
-    fid: number
-    url: string
-    messageHash: string
-    timestamp: number
-    network: number
-    buttonIndex: number
-    castId: {
-      fid: number
-      hash: string
-    }
-  }
   trustedData: {
     messageBytes: string
   }
@@ -31,51 +34,14 @@ interface FrameResponse {
   }
   post_url?: string
   refresh_period?: number
+  state?: FrameState
 }
 
-interface NeynarValidationResponse {
-  valid: boolean
-  action: {
-    type: string
-  }
-  interactor: {
-    fid: number
-    username: string
-  }
-}
-
-// Farcaster frame message validation using Neynar
-async function validateFrameMessage(trustedData: string): Promise<boolean> {
-  try {
-    const neynarApiKey = process.env.VITE_NEYNAR_API_KEY
-    if (!neynarApiKey) {
-      console.warn('No Neynar API key - skipping frame validation')
-      return true // Allow in development, but log warning
-    }
-
-    // Validate frame message with Neynar
-    const response = await fetch('https://api.neynar.com/v2/farcaster/frame/validate', {
-      method: 'POST',
-      headers: {
-        'accept': 'application/json',
-        'api_key': neynarApiKey,
-        'content-type': 'application/json'
-      },
-      body: JSON.stringify({
-        message_bytes_in_hex: trustedData
-      })
-    })
-
-    if (response.ok) {
-      const validation = await response.json() as NeynarValidationResponse
-      return validation.valid === true
-    }
-    
-    return false
-  } catch (error) {
-    console.error('Frame validation error:', error)
-    return false
-  }
+// Navigation state carried between posts in fc:frame:state
+interface FrameState {
+  view: 'home' | 'rank' | 'leaderboard'
+  page?: number
+  highlight?: number // Rank highlighted on the leaderboard page (the viewer or a search result)
 }
 
 // Types for Neynar API response
@@ -95,93 +61,295 @@ interface NeynarResponse {
   }
 }
 
-// Helper to get user's staking position
-async function getUserStakingPosition(fid: number): Promise<{ rank: number; amount: string; address: string } | null> {
-  try {
-    const supabaseUrl = process.env.VITE_SUPABASE_URL
-    const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-      throw new Error('Missing Supabase configuration')
-    }
+const NEYNAR_API_URL = 'https://api.neynar.com/v2'
 
-    // First, get the user's verified addresses from Farcaster
-    const neynarApiKey = process.env.VITE_NEYNAR_API_KEY
-    if (!neynarApiKey) {
-      throw new Error('Missing Neynar API key')
-    }
+function neynarHeaders(): Record<string, string> {
+  const neynarApiKey = process.env.VITE_NEYNAR_API_KEY
+  if (!neynarApiKey) {
+    throw new Error('Missing Neynar API key')
+  }
+  return { 'accept': 'application/json', 'api_key': neynarApiKey }
+}
 
-    const userResponse = await fetch(`https://api.neynar.com/v2/farcaster/user?fid=${fid}`, {
-      headers: {
-        'accept': 'application/json',
-        'api_key': neynarApiKey,
-      },
-    })
+async function fetchFarcasterUser(fid: number): Promise<NeynarUser> {
+  const userResponse = await fetch(`${NEYNAR_API_URL}/farcaster/user?fid=${fid}`, { headers: neynarHeaders() })
 
-    if (!userResponse.ok) {
-      throw new Error('Failed to fetch user data')
-    }
+  if (!userResponse.ok) {
+    throw new Error('Failed to fetch user data')
+  }
 
-    const userData = await userResponse.json() as NeynarResponse
-    const addresses = userData.result?.user?.verified_addresses?.eth_addresses || []
+  const userData = await userResponse.json() as NeynarResponse
+  return userData.result.user
+}
+
+// Null when no account has this username
+async function fetchFarcasterUserByUsername(username: string): Promise<NeynarUser | null> {
+  const response = await fetch(
+    `${NEYNAR_API_URL}/farcaster/user/by_username?username=${encodeURIComponent(username)}`,
+    { headers: neynarHeaders() }
+  )
+
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Neynar API error: ${response.status}`)
+  }
+
+  const data = await response.json() as { user?: NeynarUser }
+  return data.user ?? null
+}
+
+function verifiedAddresses(user: NeynarUser): string[] {
+  return (user.verified_addresses?.eth_addresses || []).map(address => address.toLowerCase())
+}
+
+const BALANCE_OF_SELECTOR = '0x70a08231'
+
+interface StakingPosition {
+  rank: number
+  amount: string // Whole TIPN
+  address: string
+  totalHolders: number
+  percentile: number // Share of holders ranked below, 0-100
+  distanceToNextRank: string | null // TIPN needed to overtake the next holder up, rounded up to 0.01
+  rankDelta24h: number | null // Positive means the staker moved up; null outside the top 1000 a day ago
+  displayName: string
+  pfpUrl: string | null
+}
+
+// Read the staked balance on-chain with a raw eth_call to balanceOf(address)
+async function fetchStakedBalance(address: string): Promise<bigint> {
+  const data = BALANCE_OF_SELECTOR + address.toLowerCase().replace(/^0x/, '').padStart(64, '0')
+  const result = await rpcRequest<string>('eth_call', [{ to: TIPN_STAKING_ADDRESS, data }, 'latest'])
+  return result === '0x' ? 0n : BigInt(result)
+}
+
+// Helper to get user's staking position: best exact rank across the user's verified addresses
+async function getUserStakingPosition(fid: number): Promise<StakingPosition | null> {
+  try {
+    // First, get the user's verified addresses from Farcaster
+    const user = await fetchFarcasterUser(fid)
+    const addresses = verifiedAddresses(user)
     
     if (addresses.length === 0) {
       return null
     }
 
-    // Check each address in our staking database
-    for (const address of addresses) {
-      const stakingResponse = await fetch(
-        `${supabaseUrl}/rest/v1/tipn_stakers?select=rank,amount,address&address=eq.${address.toLowerCase()}`,
-        {
-          headers: {
-            'apikey': supabaseAnonKey,
-            'Authorization': `Bearer ${supabaseAnonKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      )
-
-      if (stakingResponse.ok) {
-        const stakingData = await stakingResponse.json() as Array<{
-          rank: number
-          amount: string
-          address: string
-        }>
-        
-        if (stakingData.length > 0) {
-          const staker = stakingData[0]
-          return {
-            rank: staker.rank,
-            amount: (BigInt(staker.amount) / BigInt(10**18)).toString(),
-            address: staker.address
-          }
-        }
-      }
+    // Read every address's balance on-chain and rank the largest one
+    const balances = await Promise.all(addresses.map(async address => ({
+      address,
+      amount: await fetchStakedBalance(address)
+    })))
+    const best = balances.reduce((top, entry) => entry.amount > top.amount ? entry : top)
+
+    if (best.amount === 0n) {
+      return null
     }
 
-    return null
+    // Ankr returns holders sorted by balance, so paging stops at the first page reaching ours
+    const [position, rankDayAgo] = await Promise.all([
+      rankAgainstHolders(best.address, best.amount, fetchHolderPages()),
+      fetchRankDayAgo(best.address)
+    ])
+    const rank = position.rank as number // The balance is non-zero
+    return {
+      rank,
+      totalHolders: position.totalHolders,
+      percentile: position.percentile as number,
+      distanceToNextRank: position.distanceToNextRank !== null ? formatTipnCeil(position.distanceToNextRank) : null,
+      amount: (best.amount / BigInt(10**18)).toString(),
+      address: best.address,
+      rankDelta24h: rankDayAgo !== null ? rankDayAgo - rank : null,
+      displayName: user.display_name || user.username,
+      pfpUrl: user.pfp_url || null
+    }
   } catch (error) {
     console.error('Error getting user staking position:', error)
     return null
   }
 }
 
-// Generate frame image URL
-function generateFrameImage(type: 'initial' | 'rank', data?: any): string {
-  const baseUrl = 'https://top-tipners.epicdylan.com'
-  
-  if (type === 'initial') {
-    return `${baseUrl}/tipn-frame-image.png`
+interface LeaderboardRow {
+  address: string
+  amount: string
+  rank: number
+  display_name: string | null
+}
+
+// Number of leaderboard pages in tipn_stakers (ranks are 1 + holders with a larger balance,
+// so the last rank is at most the row count)
+async function fetchLeaderboardPageCount(): Promise<number> {
+  const [last] = await supabaseRequest<Array<{ rank: number }>>('tipn_stakers?select=rank&order=rank.desc&limit=1')
+  return Math.max(Math.ceil((last?.rank ?? 0) / LEADERBOARD_PAGE_SIZE), 1)
+}
+
+async function fetchLeaderboardPage(page: number): Promise<LeaderboardRow[]> {
+  const offset = (page - 1) * LEADERBOARD_PAGE_SIZE
+  return supabaseRequest<LeaderboardRow[]>(
+    `tipn_stakers?select=address,amount::text,rank,display_name&order=rank.asc,address.asc&offset=${offset}&limit=${LEADERBOARD_PAGE_SIZE}`
+  )
+}
+
+// Best leaderboard rank among the given addresses, or null if none is in the top 1000
+async function findLeaderboardRank(addresses: string[]): Promise<number | null> {
+  if (addresses.length === 0) return null
+
+  const [best] = await supabaseRequest<Array<{ rank: number }>>(
+    `tipn_stakers?select=rank&address=in.(${addresses.join(',')})&order=rank.asc&limit=1`
+  )
+  return best?.rank ?? null
+}
+
+function pageOfRank(rank: number): number {
+  return Math.ceil(rank / LEADERBOARD_PAGE_SIZE)
+}
+
+// Frame state from the post; anything missing or malformed starts over at the home view
+function parseFrameState(state: string | undefined): FrameState {
+  if (!state) return { view: 'home' }
+
+  for (const decode of [(value: string) => value, decodeURIComponent]) {
+    try {
+      // A malformed % sequence makes decodeURIComponent throw, which falls through to home
+      const parsed = JSON.parse(decode(state)) as Partial<FrameState>
+      if (parsed.view === 'home' || parsed.view === 'rank' || parsed.view === 'leaderboard') {
+        return {
+          view: parsed.view,
+          page: Number.isInteger(parsed.page) && (parsed.page as number) > 0 ? parsed.page : undefined,
+          highlight: Number.isInteger(parsed.highlight) && (parsed.highlight as number) > 0 ? parsed.highlight : undefined
+        }
+      }
+    } catch {
+      // Try the next encoding
+    }
   }
-  
-  if (type === 'rank' && data) {
-    // Generate dynamic image with user's rank
-    // For now, return a static image - you could implement dynamic image generation
-    return `${baseUrl}/tipn-rank-frame.png?rank=${data.rank}&amount=${data.amount}`
+
+  return { view: 'home' }
+}
+
+const FRAME_POST_URL = `${APP_URL}/.netlify/functions/frame-handler`
+
+// Signed actions are only accepted for this app's frames. ALLOW_ANY_FRAME_HOST=true turns the
+// check off for local development (frames served from localhost or a tunnel) - never set it on a deploy.
+function getExpectedFrameHost(): string | null {
+  return process.env.ALLOW_ANY_FRAME_HOST === 'true' ? null : new URL(APP_URL).host
+}
+
+// Initial view, also used when a request's state can't be read
+function homeFrame(): FrameResponse {
+  return {
+    image: generateFrameImage('initial'),
+    buttons: [
+      {
+        label: 'View Leaderboard',
+        action: 'link',
+        target: APP_URL
+      },
+      {
+        label: 'Check My Rank',
+        action: 'post'
+      },
+      {
+        label: '🏆 Top 10',
+        action: 'post'
+      }
+    ],
+    post_url: FRAME_POST_URL,
+    state: { view: 'home' }
+  }
+}
+
+// One leaderboard page with prev/next, "me" and username search (the frame's text input).
+// Out-of-range pages are clamped to the last page.
+async function leaderboardFrame(page: number, highlight: number | null = null, caption: string | null = null): Promise<FrameResponse> {
+  const totalPages = await fetchLeaderboardPageCount()
+  const currentPage = Math.min(Math.max(page, 1), totalPages)
+  const rows = await fetchLeaderboardPage(currentPage)
+
+  return {
+    image: getLeaderboardCardUrl({
+      page: currentPage,
+      totalPages,
+      rows: rows.map(row => ({
+        rank: row.rank,
+        name: row.display_name || shortenAddress(row.address),
+        amount: (BigInt(row.amount) / BigInt(10**18)).toString()
+      })),
+      highlightRank: highlight,
+      caption
+    }, signCardPayload),
+    input: { text: 'Search @username' },
+    buttons: [
+      { label: '⬅️ Prev', action: 'post' },
+      { label: 'Next ➡️', action: 'post' },
+      { label: '📍 Me', action: 'post' },
+      { label: '🔍 Search', action: 'post' }
+    ],
+    post_url: FRAME_POST_URL,
+    state: { view: 'leaderboard', page: currentPage, highlight: highlight ?? undefined }
+  }
+}
+
+// Jump to the page holding the best-ranked verified address of a Farcaster user
+async function leaderboardFrameForUser(user: NeynarUser, page: number, label: string): Promise<FrameResponse> {
+  const rank = await findLeaderboardRank(verifiedAddresses(user))
+  if (rank === null) {
+    return leaderboardFrame(page, null, `${label} not in the top 1000`)
+  }
+  return leaderboardFrame(pageOfRank(rank), rank, `${label} #${rank}`)
+}
+
+// Username search from the frame's text input
+async function searchFrame(inputText: string | undefined, page: number): Promise<FrameResponse> {
+  const username = inputText?.trim().replace(/^@/, '').toLowerCase()
+  if (!username) {
+    return leaderboardFrame(page, null, 'Type a username to search')
+  }
+
+  const user = await fetchFarcasterUserByUsername(username)
+  if (!user) {
+    return leaderboardFrame(page, null, `@${username} not found`)
+  }
+  return leaderboardFrameForUser(user, page, `@${user.username} is`)
+}
+
+// Button presses on the leaderboard view: 1 prev, 2 next, 3 me, 4 search
+async function leaderboardNavigation(state: FrameState, request: FrameActionMessage): Promise<FrameResponse> {
+  const page = state.page ?? 1
+
+  switch (request.buttonIndex) {
+    case 1:
+      return leaderboardFrame(page - 1)
+    case 2:
+      return leaderboardFrame(page + 1)
+    case 3:
+      return leaderboardFrameForUser(await fetchFarcasterUser(request.fid), page, 'You are')
+    case 4:
+      return searchFrame(request.inputText, page)
+    default:
+      return leaderboardFrame(page, state.highlight ?? null)
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// Generate frame image URL: the static welcome image, or a rendered rank card (rank-card function)
+function generateFrameImage(type: 'initial' | 'rank', position?: StakingPosition): string {
+  if (type === 'rank' && position) {
+    return getRankCardUrl({
+      name: position.displayName,
+      pfpUrl: position.pfpUrl,
+      rank: position.rank,
+      totalHolders: position.totalHolders,
+      amount: position.amount,
+      percentile: position.percentile,
+      rankDelta: position.rankDelta24h,
+      distanceToNextRank: position.distanceToNextRank
+    }, signCardPayload)
   }
   
-  return `${baseUrl}/tipn-frame-image.png`
+  return `${APP_URL}/tipn-frame-image.png`
 }
 
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext): Promise<HandlerResponse> => {
@@ -222,7 +390,7 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     const frameRequest: FrameRequest = JSON.parse(event.body)
     
     // Basic validation
-    if (!frameRequest.untrustedData || !frameRequest.trustedData) {
+    if (typeof frameRequest.trustedData?.messageBytes !== 'string') {
       return {
         statusCode: 400,
         headers: {
@@ -231,34 +399,52 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
         body: JSON.stringify({ error: 'Invalid frame request format' })
       }
     }
-    
-    // Validate the frame message
-    const isValid = await validateFrameMessage(frameRequest.trustedData.messageBytes)
-    if (!isValid) {
+
+    // Verify the signed message; fid, button, input and state are read only from it
+    const signerLookup = getSignerLookup()
+    if (!signerLookup) {
+      console.error('❌ No signer lookup configured (FARCASTER_HUB_URL or VITE_NEYNAR_API_KEY) - rejecting frame action')
       return {
-        statusCode: 400,
+        statusCode: 503,
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ error: 'Invalid frame message' })
+        body: JSON.stringify({ error: 'Frame verification unavailable' })
       }
     }
 
-    const { fid, buttonIndex } = frameRequest.untrustedData
-    
-    if (!fid || typeof fid !== 'number') {
+    let message: FrameActionMessage
+    try {
+      message = await verifyFrameMessage(frameRequest.trustedData.messageBytes, signerLookup, getExpectedFrameHost())
+    } catch (error) {
+      if (!(error instanceof FrameValidationError)) throw error
+
+      console.warn(`⚠️ Rejected frame message: ${error.message}`)
       return {
         statusCode: 400,
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ error: 'Invalid or missing FID' })
+        body: JSON.stringify({ error: 'Invalid frame message', details: error.message })
       }
     }
+
+    const { fid, buttonIndex } = message
     
     let frameResponse: FrameResponse
+    const state = parseFrameState(message.state)
 
-    if (buttonIndex === 2) {
+    if (state.view === 'leaderboard') {
+      frameResponse = await leaderboardNavigation(state, message)
+    } else if (state.view === 'rank' && buttonIndex === 3) {
+      // "Around me" from the rank card
+      frameResponse = state.highlight
+        ? await leaderboardFrame(pageOfRank(state.highlight), state.highlight)
+        : await leaderboardFrame(1)
+    } else if (buttonIndex === 3) {
+      // "Top 10" from the home view
+      frameResponse = await leaderboardFrame(1)
+    } else if (buttonIndex === 2) {
       // "Check My Rank" button was clicked
       const stakingPosition = await getUserStakingPosition(fid)
       
@@ -269,14 +455,21 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
             {
               label: 'View Full Leaderboard',
               action: 'link',
-              target: 'https://top-tipners.epicdylan.com'
+              target: APP_URL
             },
             {
               label: 'Share My Rank',
               action: 'link',
-              target: `https://warpcast.com/~/compose?text=I'm rank %23${stakingPosition.rank} on the Top Tipners leaderboard with ${stakingPosition.amount} TIPN staked! 🔥%0A%0ACheck your rank: https://top-tipners.epicdylan.com`
+              // The staker page embeds as a mini app launch card showing this rank
+              target: getFarcasterComposeUrl(`I'm rank #${stakingPosition.rank} of ${stakingPosition.totalHolders} (top ${Math.max(100 - stakingPosition.percentile, 0.1).toFixed(1)}%) on the Top Tipners leaderboard with ${stakingPosition.amount} TIPN staked! 🔥\n\nCheck your rank: ${APP_URL}`, [getStakerPageUrl(stakingPosition.address)])
+            },
+            {
+              label: '🏆 Around me',
+              action: 'post'
             }
-          ]
+          ],
+          post_url: FRAME_POST_URL,
+          state: { view: 'rank', highlight: stakingPosition.rank }
         }
       } else {
         frameResponse = {
@@ -285,33 +478,25 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
             {
               label: 'View Leaderboard',
               action: 'link',
-              target: 'https://top-tipners.epicdylan.com'
+              target: APP_URL
             },
             {
               label: 'Start Staking TIPN',
               action: 'link',
-              target: 'https://top-tipners.epicdylan.com'
+              target: APP_URL
+            },
+            {
+              label: '🏆 Top 10',
+              action: 'post'
             }
-          ]
+          ],
+          post_url: FRAME_POST_URL,
+          state: { view: 'home' }
         }
       }
     } else {
       // Default response for button 1 or initial load
-      frameResponse = {
-        image: generateFrameImage('initial'),
-        buttons: [
-          {
-            label: 'View Leaderboard',
-            action: 'link',
-            target: 'https://top-tipners.epicdylan.com'
-          },
-          {
-            label: 'Check My Rank',
-            action: 'post'
-          }
-        ],
-        post_url: 'https://top-tipners.epicdylan.com/.netlify/functions/frame'
-      }
+      frameResponse = homeFrame()
     }
 
     // Return HTML with proper meta tags for Frame protocol
@@ -320,13 +505,15 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
 <html>
 <head>
   <meta property="fc:frame" content="vNext" />
-  <meta property="fc:frame:image" content="${frameResponse.image}" />
+  <meta property="fc:frame:image" content="${escapeAttribute(frameResponse.image)}" />
   <meta property="fc:frame:image:aspect_ratio" content="1.91:1" />
   ${frameResponse.buttons?.map((button, index) => `
-  <meta property="fc:frame:button:${index + 1}" content="${button.label}" />
+  <meta property="fc:frame:button:${index + 1}" content="${escapeAttribute(button.label)}" />
   ${button.action ? `<meta property="fc:frame:button:${index + 1}:action" content="${button.action}" />` : ''}
-  ${button.target ? `<meta property="fc:frame:button:${index + 1}:target" content="${button.target}" />` : ''}
+  ${button.target ? `<meta property="fc:frame:button:${index + 1}:target" content="${escapeAttribute(button.target)}" />` : ''}
   `).join('') || ''}
+  ${frameResponse.input ? `<meta property="fc:frame:input:text" content="${escapeAttribute(frameResponse.input.text)}" />` : ''}
+  ${frameResponse.state ? `<meta property="fc:frame:state" content="${escapeAttribute(JSON.stringify(frameResponse.state))}" />` : ''}
   ${frameResponse.post_url ? `<meta property="fc:frame:post_url" content="${frameResponse.post_url}" />` : ''}
   <title>Top Tipners Frame</title>
 </head>
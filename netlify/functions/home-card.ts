@@ -0,0 +1,22 @@
+// netlify/functions/home-card.ts
+import { createHash } from 'node:crypto'
+import type { Handler, HandlerResponse } from '@netlify/functions'
+import { renderHomeCardSvg } from './_shared/rankCardSvg'
+import { jsonError, serveRenderedCard } from './_shared/cardResponse'
+
+// Fixed home page card for link previews (1.91:1) and the Mini App embed (3:2 with layout=embed),
+// referenced from index.html. It has no user content, so it isn't signed. Its URL stays the same
+// across deploys, so it is cached briefly and its ETag follows the rendered design.
+const HOME_CARD_MAX_AGE = 60 * 60 // 1 hour
+
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'GET') {
+    return jsonError(405, 'Method not allowed')
+  }
+
+  const layout = new URLSearchParams(event.rawQuery || '').get('layout') === 'embed' ? 'embed' : 'frame'
+  const svg = renderHomeCardSvg(layout)
+  const hash = `home-${layout}-${createHash('sha256').update(svg).digest('hex').slice(0, 16)}`
+
+  return serveRenderedCard(event, 'home', hash, async () => ({ svg, complete: true }), HOME_CARD_MAX_AGE)
+}
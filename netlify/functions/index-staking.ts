@@ -0,0 +1,25 @@
+// netlify/functions/index-staking.ts
+import type { Handler } from '@netlify/functions'
+import { runStakingIndexer } from './_shared/stakingIndexer'
+
+// Scheduled staking Transfer-log indexer (see netlify.toml); feeds the RPC holder source
+export const handler: Handler = async () => {
+  try {
+    const result = await runStakingIndexer()
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ ...result, timestamp: new Date().toISOString() })
+    }
+  } catch (error) {
+    console.error('❌ Staking indexer failed:', error)
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Indexing failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      })
+    }
+  }
+}
@@ -0,0 +1,23 @@
+// netlify/functions/leaderboard-card.ts
+import type { Handler, HandlerResponse } from '@netlify/functions'
+import { renderLeaderboardCardSvg } from './_shared/rankCardSvg'
+import { jsonError, serveCard } from './_shared/cardResponse'
+import { leaderboardCardPayload, parseLeaderboardCardParams } from '../../src/core/rankCard'
+
+// 1.91:1 image of one leaderboard page for the frame (GET ?page=&pages=&row=...&v=<signature>).
+// URLs come from getLeaderboardCardUrl and are cached like rank cards.
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'GET') {
+    return jsonError(405, 'Method not allowed')
+  }
+
+  const card = parseLeaderboardCardParams(new URLSearchParams(event.rawQuery || ''))
+  if (!card) {
+    return jsonError(400, 'Invalid leaderboard card parameters')
+  }
+
+  return serveCard(event, 'leaderboard', leaderboardCardPayload(card), async () => ({
+    svg: renderLeaderboardCardSvg(card),
+    complete: true
+  }))
+}
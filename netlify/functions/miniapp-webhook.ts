@@ -0,0 +1,63 @@
+// netlify/functions/miniapp-webhook.ts
+import type { Handler, HandlerResponse } from '@netlify/functions'
+import { jsonError } from './_shared/cardResponse'
+import { getSignerLookup } from './_shared/signers'
+import { deleteNotificationToken, saveNotificationToken } from './_shared/notificationTokens'
+import { WebhookValidationError, verifyWebhookEvent, type VerifiedWebhookEvent } from './_shared/webhookEvent'
+
+// Mini App webhook (webhookUrl in public/well-known/farcaster.json): stores the notification
+// token a Farcaster client issues when the user adds the app or enables notifications, and
+// drops it when they remove the app or disable notifications.
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'POST') {
+    return jsonError(405, 'Method not allowed')
+  }
+
+  const signerLookup = getSignerLookup()
+  if (!signerLookup) {
+    console.error('❌ No signer lookup configured (FARCASTER_HUB_URL or VITE_NEYNAR_API_KEY) - rejecting webhook event')
+    return jsonError(503, 'Webhook verification unavailable')
+  }
+
+  let verified: VerifiedWebhookEvent
+  try {
+    verified = await verifyWebhookEvent(JSON.parse(event.body || 'null'), signerLookup)
+  } catch (error) {
+    if (!(error instanceof WebhookValidationError) && !(error instanceof SyntaxError)) {
+      console.error('❌ Webhook verification failed:', error)
+      return jsonError(500, 'Webhook verification failed', error instanceof Error ? error.message : 'Unknown error')
+    }
+
+    console.warn(`⚠️ Rejected webhook event: ${error.message}`)
+    return jsonError(400, 'Invalid webhook event', error.message)
+  }
+
+  const { fid, appKey, payload } = verified
+
+  try {
+    switch (payload.event) {
+      case 'frame_added':
+      case 'notifications_enabled':
+        // frame_added only carries a token when the user also allowed notifications
+        if (payload.notificationDetails) {
+          await saveNotificationToken(fid, appKey, payload.notificationDetails.url, payload.notificationDetails.token)
+          console.log(`🔔 Notifications enabled for fid ${fid} (${payload.event})`)
+        }
+        break
+      case 'frame_removed':
+      case 'notifications_disabled':
+        await deleteNotificationToken(fid, appKey)
+        console.log(`🔕 Notifications disabled for fid ${fid} (${payload.event})`)
+        break
+    }
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true })
+    }
+  } catch (error) {
+    console.error(`❌ Failed to handle ${payload.event} for fid ${fid}:`, error)
+    return jsonError(500, 'Failed to handle webhook event', error instanceof Error ? error.message : 'Unknown error')
+  }
+}
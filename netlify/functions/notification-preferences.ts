@@ -0,0 +1,112 @@
+// netlify/functions/notification-preferences.ts
+import type { Handler, HandlerEvent, HandlerResponse } from '@netlify/functions'
+import { createClient, Errors } from '@farcaster/quick-auth'
+import { jsonError } from './_shared/cardResponse'
+import { supabaseRequest } from './_shared/supabase'
+import { APP_URL } from '../../src/config/blockchain'
+import {
+  mergeNotificationPreferences,
+  toNotificationPreferences,
+  toNotificationPreferencesRow,
+  type NotificationPreferences,
+  type NotificationPreferencesRow
+} from '../../src/core/notifications'
+
+// Rank notification preferences of the signed-in user (GET, PUT with a partial update).
+// Requests carry a Farcaster Quick Auth token (sdk.experimental.quickAuth) as a bearer token;
+// its subject is the user's fid.
+
+const quickAuth = createClient()
+
+class UnauthorizedError extends Error {}
+
+// jose reports malformed and tampered tokens with ERR_JW* codes
+function isInvalidTokenError(error: unknown): boolean {
+  if (error instanceof Errors.InvalidTokenError) return true
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'string' && code.startsWith('ERR_JW')
+}
+
+// Tokens must be issued for the app's domain. Preview or local hosts are accepted only when listed
+// in QUICK_AUTH_EXTRA_DOMAINS (comma-separated), so the client can't pick the token audience.
+function getAuthDomain(requestHost: string | undefined): string {
+  const extraDomains = (process.env.QUICK_AUTH_EXTRA_DOMAINS || '').split(',').map(domain => domain.trim()).filter(Boolean)
+  return requestHost && extraDomains.includes(requestHost) ? requestHost : new URL(APP_URL).host
+}
+
+async function authenticate(event: HandlerEvent): Promise<number> {
+  const token = event.headers.authorization?.match(/^Bearer (.+)$/)?.[1]
+  if (!token) {
+    throw new UnauthorizedError('Missing bearer token')
+  }
+
+  const domain = getAuthDomain(event.headers.host)
+
+  try {
+    const payload = await quickAuth.verifyJwt({ token, domain })
+    return payload.sub
+  } catch (error) {
+    if (isInvalidTokenError(error)) {
+      throw new UnauthorizedError(error instanceof Error ? error.message : 'Invalid token')
+    }
+    throw error
+  }
+}
+
+async function fetchPreferences(fid: number): Promise<NotificationPreferences> {
+  const [row] = await supabaseRequest<NotificationPreferencesRow[]>(`notification_preferences?select=*&fid=eq.${fid}`)
+  return toNotificationPreferences(row)
+}
+
+// Whether any Farcaster client holds a notification token for the user
+async function isSubscribed(fid: number): Promise<boolean> {
+  const rows = await supabaseRequest<Array<{ fid: number }>>(`miniapp_notification_tokens?select=fid&fid=eq.${fid}&limit=1`)
+  return rows.length > 0
+}
+
+function preferencesResponse(preferences: NotificationPreferences, subscribed: boolean): HandlerResponse {
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    body: JSON.stringify({ preferences, subscribed })
+  }
+}
+
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'PUT') {
+    return jsonError(405, 'Method not allowed')
+  }
+
+  try {
+    const fid = await authenticate(event)
+    const [current, subscribed] = await Promise.all([fetchPreferences(fid), isSubscribed(fid)])
+
+    if (event.httpMethod === 'GET') {
+      return preferencesResponse(current, subscribed)
+    }
+
+    let update: unknown
+    try {
+      update = JSON.parse(event.body || '{}')
+    } catch {
+      return jsonError(400, 'Invalid JSON body')
+    }
+
+    const preferences = mergeNotificationPreferences(current, update)
+    await supabaseRequest('notification_preferences?on_conflict=fid', {
+      method: 'POST',
+      headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+      body: JSON.stringify({ ...toNotificationPreferencesRow(fid, preferences), updated_at: new Date().toISOString() })
+    })
+
+    console.log(`🔔 Updated notification preferences for fid ${fid}`)
+    return preferencesResponse(preferences, subscribed)
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return jsonError(401, 'Unauthorized', error.message)
+    }
+
+    console.error('❌ Notification preferences request failed:', error)
+    return jsonError(500, 'Failed to handle notification preferences', error instanceof Error ? error.message : 'Unknown error')
+  }
+}
@@ -0,0 +1,29 @@
+// netlify/functions/rank-card.ts
+import type { Handler, HandlerResponse } from '@netlify/functions'
+import { fetchPfpDataUri, renderRankCardSvg } from './_shared/rankCardSvg'
+import { jsonError, serveCard } from './_shared/cardResponse'
+import { parseRankCardParams, rankCardPayload } from '../../src/core/rankCard'
+
+// 1.91:1 rank card for frames and share links, 3:2 with layout=embed for Mini App embeds
+// (GET ?name=&rank=&amount=...&v=<signature>).
+// URLs come from getRankCardUrl with signCardPayload; anything else (a missing or wrong `v`)
+// is rejected, so the card only ever shows data the app produced.
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'GET') {
+    return jsonError(405, 'Method not allowed')
+  }
+
+  const card = parseRankCardParams(new URLSearchParams(event.rawQuery || ''))
+  if (!card) {
+    return jsonError(400, 'Invalid rank card parameters (name, rank and amount are required)')
+  }
+
+  return serveCard(event, 'rank', rankCardPayload(card), async () => {
+    const pfpDataUri = await fetchPfpDataUri(card.pfpUrl)
+    return {
+      svg: renderRankCardSvg(card, pfpDataUri),
+      // A card rendered without its pfp is only cached briefly, so the pfp is retried
+      complete: !card.pfpUrl || pfpDataUri !== null
+    }
+  })
+}
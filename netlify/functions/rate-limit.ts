@@ -0,0 +1,51 @@
+// netlify/functions/rate-limit.ts
+import type { Handler, HandlerResponse } from '@netlify/functions'
+import { jsonError } from './_shared/cardResponse'
+import { serverRateLimitStore } from './_shared/rateLimiter'
+import { isRateLimitedProvider } from '../../src/core/rateLimit'
+
+// Most tokens one request may take (take_rate_limit_tokens enforces the same bound)
+const MAX_TOKENS_PER_REQUEST = 10
+
+function jsonResponse(body: unknown): HandlerResponse {
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'no-store' },
+    body: JSON.stringify(body)
+  }
+}
+
+// The browser's access to the shared provider budgets, which only the service role can use.
+// GET: global usage per provider. POST { provider, tokens }: take tokens, returns the decision.
+export const handler: Handler = async (event) => {
+  try {
+    if (event.httpMethod === 'GET') {
+      return jsonResponse(await serverRateLimitStore.status())
+    }
+
+    if (event.httpMethod !== 'POST') {
+      return jsonError(405, 'Method not allowed')
+    }
+
+    let request: { provider?: unknown; tokens?: unknown }
+    try {
+      request = JSON.parse(event.body || '{}')
+    } catch {
+      return jsonError(400, 'Invalid JSON body')
+    }
+
+    const tokens = request.tokens ?? 1
+    if (!isRateLimitedProvider(request.provider)) {
+      return jsonError(400, 'Unknown provider')
+    }
+    if (typeof tokens !== 'number' || !Number.isInteger(tokens) || tokens < 1 || tokens > MAX_TOKENS_PER_REQUEST) {
+      return jsonError(400, `tokens must be an integer between 1 and ${MAX_TOKENS_PER_REQUEST}`)
+    }
+
+    return jsonResponse(await serverRateLimitStore.take(request.provider, tokens))
+  } catch (error) {
+    // The browser falls back to a local bucket when this fails
+    console.error('❌ Rate limit store failed:', error)
+    return jsonError(503, 'Rate limit store unavailable', error instanceof Error ? error.message : 'Unknown error')
+  }
+}
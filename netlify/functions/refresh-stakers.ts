@@ -0,0 +1,25 @@
+// netlify/functions/refresh-stakers.ts
+import type { Handler } from '@netlify/functions'
+import { runStakerRefresh } from './_shared/stakerRefresh'
+
+// Scheduled staking data refresh (see netlify.toml). Manual runs go through trigger-refresh.
+export const handler: Handler = async () => {
+  try {
+    const result = await runStakerRefresh('scheduled')
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ ...result, timestamp: new Date().toISOString() })
+    }
+  } catch (error) {
+    console.error('❌ Scheduled refresh failed:', error)
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Refresh failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      })
+    }
+  }
+}
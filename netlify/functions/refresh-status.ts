@@ -0,0 +1,78 @@
+// netlify/functions/refresh-status.ts
+import type { Handler, HandlerResponse } from '@netlify/functions'
+import { supabaseRequest } from './_shared/supabase'
+
+// Holder data is refreshed hourly; flag it as stale after two missed runs
+const STALE_AFTER_MS = 3 * 60 * 60 * 1000 // 3 hours
+
+const RUN_COLUMNS = [
+  'id', 'kind', 'trigger', 'source', 'status', 'started_at', 'finished_at', 'block_number',
+  'holder_count', 'added_count', 'removed_count', 'amount_changed_count', 'rank_changed_count',
+  'snapshot_written', 'enriched_count', 'error_count', 'error'
+].join(',')
+
+interface RefreshRunRow {
+  id: string
+  kind: 'holders' | 'enrichment'
+  status: 'running' | 'succeeded' | 'failed'
+  started_at: string
+  finished_at: string | null
+  block_number: number | null
+  [column: string]: unknown
+}
+
+function latestRunQuery(filters: string): string {
+  return `refresh_runs?select=${RUN_COLUMNS}&${filters}&order=started_at.desc&limit=1`
+}
+
+// Data freshness for the leaderboard badge: last successful holder refresh,
+// the most recent run of each kind (which may have failed) and a stale flag
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Method not allowed' })
+    }
+  }
+
+  try {
+    const [lastSuccess, latestRefresh, latestEnrichment] = await Promise.all([
+      supabaseRequest<RefreshRunRow[]>(latestRunQuery('kind=eq.holders&status=eq.succeeded')),
+      supabaseRequest<RefreshRunRow[]>(latestRunQuery('kind=eq.holders')),
+      supabaseRequest<RefreshRunRow[]>(latestRunQuery('kind=eq.enrichment'))
+    ])
+
+    const lastSuccessRun = lastSuccess[0] || null
+    const dataAsOf = lastSuccessRun?.finished_at || null
+    const isStale = !dataAsOf || Date.now() - new Date(dataAsOf).getTime() > STALE_AFTER_MS
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'public, max-age=60'
+      },
+      body: JSON.stringify({
+        dataAsOf,
+        blockNumber: lastSuccessRun?.block_number ?? null,
+        isStale,
+        staleAfterMs: STALE_AFTER_MS,
+        lastSuccess: lastSuccessRun,
+        latestRefresh: latestRefresh[0] || null,
+        latestEnrichment: latestEnrichment[0] || null
+      })
+    }
+  } catch (error) {
+    console.error('❌ Failed to load refresh status:', error)
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
+      body: JSON.stringify({
+        error: 'Failed to load refresh status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+}
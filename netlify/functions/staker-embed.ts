@@ -0,0 +1,131 @@
+// netlify/functions/staker-embed.ts
+import type { Handler, HandlerResponse } from '@netlify/functions'
+import { supabaseRequest } from './_shared/supabase'
+import { fetchRankDayAgo } from './_shared/rankHistory'
+import { signCardPayload } from './_shared/cardSignature'
+import { jsonError } from './_shared/cardResponse'
+import { shortenAddress } from '../../src/core/identity'
+import { RANK_CARD_EMBED_HEIGHT, RANK_CARD_WIDTH, getRankCardUrl } from '../../src/core/rankCard'
+import { getMiniAppEmbed, getStakerPageUrl } from '../../src/core/miniApp'
+
+// Staker pages (/staker/:address, rewritten here in netlify.toml): the SPA's index.html with
+// the staker's rank card as the Mini App embed and link preview image, so a cast of the page
+// shows the card with a button that opens the app on that staker. Anything that isn't a
+// top-1000 address gets index.html unchanged.
+
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/
+const INDEX_CACHE_MS = 5 * 60 * 1000
+
+// Tags in index.html that are replaced with the staker's
+const REPLACED_META = /\s*<meta\s+(?:property|name)="(?:fc:frame|og:url|og:title|og:image|og:image:width|og:image:height|twitter:url|twitter:title|twitter:image)"\s+content=(?:"[^"]*"|'[^']*')\s*\/?>/g
+
+interface StakerRow {
+  address: string
+  amount: string // Wei
+  rank: number
+  display_name: string | null
+  farcaster_pfp_url: string | null
+}
+
+// index.html per warm function instance
+let indexHtmlCache: { html: string; fetchedAt: number } | null = null
+
+async function fetchIndexHtml(origin: string): Promise<string> {
+  if (indexHtmlCache && Date.now() - indexHtmlCache.fetchedAt < INDEX_CACHE_MS) {
+    return indexHtmlCache.html
+  }
+
+  const response = await fetch(`${origin}/index.html`)
+  if (!response.ok) {
+    throw new Error(`Failed to load index.html: ${response.status}`)
+  }
+
+  const html = await response.text()
+  indexHtmlCache = { html, fetchedAt: Date.now() }
+  return html
+}
+
+async function fetchStaker(address: string): Promise<StakerRow | null> {
+  const [staker] = await supabaseRequest<StakerRow[]>(
+    `tipn_stakers?select=address,amount::text,rank,display_name,farcaster_pfp_url&address=eq.${address}&limit=1`
+  )
+  return staker ?? null
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+async function stakerMeta(staker: StakerRow): Promise<string> {
+  const name = staker.display_name || shortenAddress(staker.address)
+  const rankDayAgo = await fetchRankDayAgo(staker.address)
+  const imageUrl = getRankCardUrl({
+    name,
+    pfpUrl: staker.farcaster_pfp_url,
+    rank: staker.rank,
+    totalHolders: null,
+    amount: (BigInt(staker.amount) / BigInt(10**18)).toString(),
+    percentile: null,
+    rankDelta: rankDayAgo !== null ? rankDayAgo - staker.rank : null,
+    layout: 'embed'
+  }, signCardPayload)
+  const pageUrl = getStakerPageUrl(staker.address)
+  const embed = getMiniAppEmbed(imageUrl, `🏆 View ${name}`, pageUrl)
+  const title = `${name} is #${staker.rank.toLocaleString('en-US')} on Top Tipners`
+
+  return [
+    `<meta name="fc:frame" content="${escapeAttribute(JSON.stringify(embed))}" />`,
+    `<meta property="og:url" content="${escapeAttribute(pageUrl)}" />`,
+    `<meta property="og:title" content="${escapeAttribute(title)}" />`,
+    `<meta property="og:image" content="${escapeAttribute(imageUrl)}" />`,
+    `<meta property="og:image:width" content="${RANK_CARD_WIDTH}" />`,
+    `<meta property="og:image:height" content="${RANK_CARD_EMBED_HEIGHT}" />`,
+    `<meta property="twitter:url" content="${escapeAttribute(pageUrl)}" />`,
+    `<meta property="twitter:title" content="${escapeAttribute(title)}" />`,
+    `<meta property="twitter:image" content="${escapeAttribute(imageUrl)}" />`
+  ].map(tag => `    ${tag}`).join('\n')
+}
+
+function htmlResponse(html: string): HandlerResponse {
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300'
+    },
+    body: html
+  }
+}
+
+export const handler: Handler = async (event): Promise<HandlerResponse> => {
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'HEAD') {
+    return jsonError(405, 'Method not allowed')
+  }
+
+  let html: string
+  try {
+    html = await fetchIndexHtml(new URL(event.rawUrl).origin)
+  } catch (error) {
+    console.error('❌ Staker page unavailable:', error)
+    return jsonError(502, 'Failed to load app', error instanceof Error ? error.message : 'Unknown error')
+  }
+
+  // The route also accepts ENS names and other queries; those keep the default embed
+  const address = decodeURIComponent(event.path.split('/').filter(Boolean).pop() || '').toLowerCase()
+  if (!ADDRESS_PATTERN.test(address)) {
+    return htmlResponse(html)
+  }
+
+  try {
+    const staker = await fetchStaker(address)
+    if (!staker) {
+      return htmlResponse(html)
+    }
+
+    console.log(`🖼️ Serving staker embed for ${address} (#${staker.rank})`)
+    return htmlResponse(html.replace(REPLACED_META, '').replace('</head>', `${await stakerMeta(staker)}\n  </head>`))
+  } catch (error) {
+    console.warn(`⚠️ Serving default embed for ${address}:`, error instanceof Error ? error.message : error)
+    return htmlResponse(html)
+  }
+}
@@ -0,0 +1,54 @@
+// netlify/functions/trigger-refresh.ts
+import type { Handler } from '@netlify/functions'
+import { timingSafeEqual } from 'node:crypto'
+import { runStakerRefresh } from './_shared/stakerRefresh'
+
+// Constant-time comparison of the bearer token against REFRESH_TRIGGER_SECRET
+function isAuthorized(authorization: string | undefined): boolean {
+  const secret = process.env.REFRESH_TRIGGER_SECRET
+  if (!secret || !authorization?.startsWith('Bearer ')) return false
+
+  const provided = Buffer.from(authorization.slice('Bearer '.length))
+  const expected = Buffer.from(secret)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+// Manual staking data refresh: POST with `Authorization: Bearer <REFRESH_TRIGGER_SECRET>`
+export const handler: Handler = async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Method not allowed' })
+    }
+  }
+
+  if (!isAuthorized(event.headers.authorization)) {
+    return {
+      statusCode: 401,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Unauthorized' })
+    }
+  }
+
+  try {
+    const result = await runStakerRefresh('manual')
+
+    return {
+      statusCode: result.status === 'skipped' ? 409 : 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...result, timestamp: new Date().toISOString() })
+    }
+  } catch (error) {
+    console.error('❌ Manual refresh failed:', error)
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        error: 'Refresh failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      })
+    }
+  }
+}
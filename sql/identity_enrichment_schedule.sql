@@ -0,0 +1,26 @@
+-- Per-address identity enrichment schedule, written by netlify/functions/enrich-identities
+-- (see netlify/functions/_shared/enrichmentSchedule.ts for the TTL and backoff rules)
+
+ALTER TABLE public.tipn_stakers
+ADD COLUMN IF NOT EXISTS identity_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS identity_last_attempt_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS identity_next_refresh_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS identity_last_error TEXT;
+
+-- Existing enriched rows: verified identities are refreshed soon, unverified ones join the backoff
+UPDATE public.tipn_stakers
+SET identity_next_refresh_at = identity_last_updated + INTERVAL '3 days'
+WHERE identity_next_refresh_at IS NULL AND has_verified_identity = TRUE AND identity_last_updated IS NOT NULL;
+
+UPDATE public.tipn_stakers
+SET identity_attempts = 1, identity_next_refresh_at = identity_last_updated + INTERVAL '6 hours'
+WHERE identity_next_refresh_at IS NULL AND has_verified_identity = FALSE AND identity_last_updated IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tipn_stakers_identity_next_refresh
+ON public.tipn_stakers(identity_next_refresh_at NULLS FIRST);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.tipn_stakers.identity_attempts IS 'Consecutive enrichment attempts without a verified identity (empty or failed)';
+COMMENT ON COLUMN public.tipn_stakers.identity_last_attempt_at IS 'When enrichment last ran for this address';
+COMMENT ON COLUMN public.tipn_stakers.identity_next_refresh_at IS 'When the identity is next due; NULL means never enriched';
+COMMENT ON COLUMN public.tipn_stakers.identity_last_error IS 'Error from the last failed enrichment attempt, NULL after a successful one';
@@ -0,0 +1,58 @@
+-- Farcaster Mini App notifications for rank changes
+-- Tokens arrive through netlify/functions/miniapp-webhook; preferences are edited through
+-- netlify/functions/notification-preferences; notifications are sent after each staking
+-- refresh (netlify/functions/_shared/rankNotifications.ts). All access is server-side.
+
+-- One token per user and Farcaster client: app_key is the client's signer key for the user,
+-- so removing the app in one client leaves the others subscribed
+CREATE TABLE IF NOT EXISTS public.miniapp_notification_tokens (
+  fid INTEGER NOT NULL,
+  app_key TEXT NOT NULL,
+  url TEXT NOT NULL,
+  token TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (fid, app_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_miniapp_notification_tokens_token
+ON public.miniapp_notification_tokens(token);
+
+-- Missing rows mean the defaults below
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  fid INTEGER PRIMARY KEY,
+  top_100 BOOLEAN NOT NULL DEFAULT TRUE,
+  top_1000 BOOLEAN NOT NULL DEFAULT TRUE,
+  overtaken BOOLEAN NOT NULL DEFAULT TRUE,
+  rank_moves BOOLEAN NOT NULL DEFAULT TRUE,
+  move_threshold INTEGER NOT NULL DEFAULT 10 CHECK (move_threshold BETWEEN 1 AND 1000),
+  max_per_day INTEGER NOT NULL DEFAULT 3 CHECK (max_per_day BETWEEN 1 AND 10),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Sent notifications, for per-user daily limits
+CREATE TABLE IF NOT EXISTS public.notification_log (
+  id BIGSERIAL PRIMARY KEY,
+  fid INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  notification_id TEXT NOT NULL,
+  run_id UUID,
+  delivered_count INTEGER NOT NULL DEFAULT 0,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_log_fid_sent_at
+ON public.notification_log(fid, sent_at DESC);
+
+-- No policies: only the service role (server functions) reads or writes these tables
+ALTER TABLE public.miniapp_notification_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_log ENABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.miniapp_notification_tokens IS 'Mini app notification tokens from frame_added / notifications_enabled webhook events';
+COMMENT ON COLUMN public.miniapp_notification_tokens.app_key IS 'Signer key of the Farcaster client that issued the token';
+COMMENT ON COLUMN public.miniapp_notification_tokens.url IS 'Notification endpoint of the Farcaster client';
+COMMENT ON COLUMN public.notification_preferences.move_threshold IS 'Notify when the rank moves by at least this many places in one refresh';
+COMMENT ON COLUMN public.notification_preferences.max_per_day IS 'At most this many notifications per rolling 24 hours';
+COMMENT ON TABLE public.notification_log IS 'One row per rank notification sent';
@@ -0,0 +1,33 @@
+-- One row per refresh run that wrote a snapshot to tipn_staker_snapshots
+-- Used to pick the previous / 24h / 7d reference runs for rank movement. Written once per run
+-- by the refresh job (after the run's snapshot rows), so lookups never scan the snapshots.
+
+-- Replaces the earlier view that grouped all of tipn_staker_snapshots on every read
+DROP VIEW IF EXISTS public.tipn_snapshot_runs;
+
+CREATE TABLE IF NOT EXISTS public.tipn_snapshot_runs (
+  run_id UUID PRIMARY KEY,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  staker_count INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tipn_snapshot_runs_captured_at
+ON public.tipn_snapshot_runs(captured_at DESC);
+
+-- Backfill runs recorded before this table existed
+INSERT INTO public.tipn_snapshot_runs (run_id, captured_at, staker_count)
+SELECT run_id, MIN(captured_at), COUNT(*)
+FROM public.tipn_staker_snapshots
+GROUP BY run_id
+ON CONFLICT (run_id) DO NOTHING;
+
+-- Written only by the refresh job (service role); the browser's anon key reads
+ALTER TABLE public.tipn_snapshot_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access" ON public.tipn_snapshot_runs;
+CREATE POLICY "Public read access" ON public.tipn_snapshot_runs FOR SELECT USING (true);
+REVOKE INSERT, UPDATE, DELETE ON public.tipn_snapshot_runs FROM anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.tipn_snapshot_runs IS 'Refresh runs recorded in tipn_staker_snapshots with their capture time and row count';
+COMMENT ON COLUMN public.tipn_snapshot_runs.captured_at IS 'captured_at of the run''s snapshot rows';
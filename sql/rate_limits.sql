@@ -0,0 +1,98 @@
+-- Shared rate limits for external identity providers (Neynar, ENS and Basename RPC lookups)
+-- One token bucket per provider, drawn from by every browser tab and server function
+-- (see src/core/rateLimit.ts). Only the service role can reach them; browsers go through
+-- netlify/functions/rate-limit. Budgets are edited here, not in the clients.
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  provider TEXT PRIMARY KEY,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  refill_per_hour INTEGER NOT NULL CHECK (refill_per_hour > 0),
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  total_taken BIGINT NOT NULL DEFAULT 0,
+  total_denied BIGINT NOT NULL DEFAULT 0
+);
+
+-- Keep in sync with DEFAULT_RATE_LIMIT_BUDGETS (used only when this table can't be reached)
+INSERT INTO public.rate_limit_buckets (provider, capacity, refill_per_hour, tokens) VALUES
+  ('neynar', 100, 100, 100),
+  ('ens', 600, 600, 600),
+  ('basename', 600, 600, 600)
+ON CONFLICT (provider) DO NOTHING;
+
+-- No direct table access; the service role goes through the function and view below
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Refill the bucket for the time elapsed since its last update, then take p_tokens if
+-- enough are available. The row lock serializes concurrent callers.
+CREATE OR REPLACE FUNCTION public.take_rate_limit_tokens(
+  p_provider TEXT,
+  p_tokens INTEGER DEFAULT 1
+) RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining DOUBLE PRECISION,
+  capacity INTEGER,
+  retry_after_ms BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  bucket public.rate_limit_buckets%ROWTYPE;
+  available DOUBLE PRECISION;
+BEGIN
+  IF p_tokens < 1 OR p_tokens > 10 THEN
+    RAISE EXCEPTION 'p_tokens must be between 1 and 10';
+  END IF;
+
+  SELECT * INTO bucket FROM public.rate_limit_buckets b WHERE b.provider = p_provider FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown rate limit provider: %', p_provider;
+  END IF;
+
+  available := LEAST(
+    bucket.capacity,
+    bucket.tokens + EXTRACT(EPOCH FROM (NOW() - bucket.updated_at)) * bucket.refill_per_hour / 3600.0
+  );
+
+  IF available >= p_tokens THEN
+    UPDATE public.rate_limit_buckets b
+    SET tokens = available - p_tokens, updated_at = NOW(), total_taken = b.total_taken + p_tokens
+    WHERE b.provider = p_provider;
+
+    RETURN QUERY SELECT TRUE, available - p_tokens, bucket.capacity, 0::BIGINT;
+  ELSE
+    UPDATE public.rate_limit_buckets b
+    SET tokens = available, updated_at = NOW(), total_denied = b.total_denied + 1
+    WHERE b.provider = p_provider;
+
+    RETURN QUERY SELECT FALSE, available, bucket.capacity,
+      CEIL((p_tokens - available) * 3600000.0 / bucket.refill_per_hour)::BIGINT;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.take_rate_limit_tokens(TEXT, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.take_rate_limit_tokens(TEXT, INTEGER) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.take_rate_limit_tokens(TEXT, INTEGER) TO service_role;
+
+-- Current global usage, refilled to now (read by getRateLimitStatus)
+CREATE OR REPLACE VIEW public.rate_limit_status AS
+SELECT
+  provider,
+  capacity,
+  refill_per_hour,
+  LEAST(capacity, tokens + EXTRACT(EPOCH FROM (NOW() - updated_at)) * refill_per_hour / 3600.0) AS tokens_available,
+  total_taken,
+  total_denied,
+  updated_at
+FROM public.rate_limit_buckets;
+
+REVOKE ALL ON public.rate_limit_status FROM anon, authenticated;
+GRANT SELECT ON public.rate_limit_status TO service_role;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.rate_limit_buckets IS 'Token buckets shared by all clients calling external identity providers';
+COMMENT ON COLUMN public.rate_limit_buckets.tokens IS 'Tokens left as of updated_at; refilled lazily by take_rate_limit_tokens';
+COMMENT ON COLUMN public.rate_limit_buckets.total_denied IS 'Requests refused because the bucket was empty';
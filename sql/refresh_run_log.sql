@@ -0,0 +1,22 @@
+-- Run log details for refresh_runs: block height, identity enrichment runs and per-item errors
+-- Read by netlify/functions/refresh-status for the leaderboard freshness badge
+
+ALTER TABLE public.refresh_runs
+ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'holders',
+ADD COLUMN IF NOT EXISTS block_number BIGINT,
+ADD COLUMN IF NOT EXISTS enriched_count INTEGER,
+ADD COLUMN IF NOT EXISTS error_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS errors JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.refresh_runs DROP CONSTRAINT IF EXISTS refresh_runs_kind_check;
+ALTER TABLE public.refresh_runs ADD CONSTRAINT refresh_runs_kind_check CHECK (kind IN ('holders', 'enrichment'));
+
+CREATE INDEX IF NOT EXISTS idx_refresh_runs_kind_status
+ON public.refresh_runs(kind, status, started_at DESC);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.refresh_runs.kind IS 'holders (staking data refresh) or enrichment (identity enrichment)';
+COMMENT ON COLUMN public.refresh_runs.block_number IS 'Base block height the holder data was fetched at';
+COMMENT ON COLUMN public.refresh_runs.enriched_count IS 'Identities processed by an enrichment run';
+COMMENT ON COLUMN public.refresh_runs.error_count IS 'Number of per-item errors (e.g. failed identity lookups)';
+COMMENT ON COLUMN public.refresh_runs.errors IS 'Per-item errors: [{ "address": "0x...", "message": "..." }]';
@@ -0,0 +1,47 @@
+-- Server-side refresh runs (netlify/functions/refresh-stakers and trigger-refresh)
+-- Each run's id doubles as the run_id of the snapshot it wrote to tipn_staker_snapshots
+
+CREATE TABLE IF NOT EXISTS public.refresh_runs (
+  id UUID PRIMARY KEY,
+  trigger TEXT NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  source TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  holder_count INTEGER,
+  added_count INTEGER,
+  removed_count INTEGER,
+  amount_changed_count INTEGER,
+  rank_changed_count INTEGER,
+  snapshot_written BOOLEAN NOT NULL DEFAULT FALSE,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_runs_started_at
+ON public.refresh_runs(started_at DESC);
+
+-- Staking and identity data are written only by server functions (service role bypasses RLS);
+-- the browser's anon key can read but no longer write
+ALTER TABLE public.tipn_stakers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tipn_staker_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refresh_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access" ON public.tipn_stakers;
+CREATE POLICY "Public read access" ON public.tipn_stakers FOR SELECT USING (true);
+
+-- Identity columns included: enrich-identities writes them with the service role
+DROP POLICY IF EXISTS "Public identity updates" ON public.tipn_stakers;
+REVOKE INSERT, UPDATE, DELETE ON public.tipn_stakers FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Public read access" ON public.tipn_staker_snapshots;
+CREATE POLICY "Public read access" ON public.tipn_staker_snapshots FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Public read access" ON public.refresh_runs;
+CREATE POLICY "Public read access" ON public.refresh_runs FOR SELECT USING (true);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.refresh_runs IS 'One row per server-side staking data refresh';
+COMMENT ON COLUMN public.refresh_runs.trigger IS 'scheduled (cron) or manual (trigger-refresh endpoint)';
+COMMENT ON COLUMN public.refresh_runs.source IS 'Holder data provider used for the run';
+COMMENT ON COLUMN public.refresh_runs.holder_count IS 'Number of stakers written to tipn_stakers';
+COMMENT ON COLUMN public.refresh_runs.snapshot_written IS 'False when the ranking was unchanged and no snapshot was recorded';
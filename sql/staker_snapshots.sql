@@ -0,0 +1,36 @@
+-- Historical rank snapshots for tipn_stakers
+-- Every refresh run appends one row per staker to tipn_staker_snapshots,
+-- while tipn_stakers is upserted in place and only holds the current ranking
+
+-- Upserts on tipn_stakers are keyed by address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tipn_stakers_address_unique
+ON public.tipn_stakers(address);
+
+-- Snapshot table: one row per staker per refresh run
+CREATE TABLE IF NOT EXISTS public.tipn_staker_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  run_id UUID NOT NULL,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  address TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  rank INTEGER NOT NULL,
+  UNIQUE (run_id, address)
+);
+
+-- Indexes for per-run and per-address history lookups
+CREATE INDEX IF NOT EXISTS idx_tipn_staker_snapshots_run_id
+ON public.tipn_staker_snapshots(run_id);
+
+CREATE INDEX IF NOT EXISTS idx_tipn_staker_snapshots_captured_at
+ON public.tipn_staker_snapshots(captured_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_tipn_staker_snapshots_address_captured_at
+ON public.tipn_staker_snapshots(address, captured_at DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.tipn_staker_snapshots IS 'Append-only history of staker ranks, one batch of rows per refresh run';
+COMMENT ON COLUMN public.tipn_staker_snapshots.run_id IS 'Refresh run that produced this row; shared by every row written in the same run';
+COMMENT ON COLUMN public.tipn_staker_snapshots.captured_at IS 'When the refresh run fetched the holder data';
+COMMENT ON COLUMN public.tipn_staker_snapshots.address IS 'Staker address (lowercase)';
+COMMENT ON COLUMN public.tipn_staker_snapshots.amount IS 'Staked amount in wei, stored as text to keep full precision';
+COMMENT ON COLUMN public.tipn_staker_snapshots.rank IS 'Rank of the address within this run';
@@ -0,0 +1,70 @@
+-- On-chain indexer state for the TIPN staking token
+-- Balances are rebuilt from Transfer logs; the checkpoint makes indexing resumable
+
+-- Checkpoint: last block whose logs have been applied, one row per indexer
+CREATE TABLE IF NOT EXISTS public.tipn_indexer_state (
+  id TEXT PRIMARY KEY,
+  start_block BIGINT NOT NULL,
+  last_indexed_block BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Balances derived from replaying Transfer logs up to last_indexed_block
+CREATE TABLE IF NOT EXISTS public.tipn_indexed_balances (
+  address TEXT PRIMARY KEY,
+  balance NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  updated_block BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tipn_indexed_balances_balance
+ON public.tipn_indexed_balances(balance DESC) WHERE balance > 0;
+
+-- Apply one indexed block range atomically: balance upserts and the checkpoint
+-- are written in the same transaction, so a crash never double-applies a range
+-- p_balances: [{ "address": "0x...", "balance": "123" }, ...] (absolute balances)
+CREATE OR REPLACE FUNCTION public.tipn_apply_indexer_batch(
+  p_indexer TEXT,
+  p_start_block BIGINT,
+  p_last_block BIGINT,
+  p_balances JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.tipn_indexed_balances (address, balance, updated_block)
+  SELECT lower(item->>'address'), (item->>'balance')::NUMERIC(78, 0), p_last_block
+  FROM jsonb_array_elements(p_balances) AS item
+  ON CONFLICT (address) DO UPDATE
+    SET balance = EXCLUDED.balance,
+        updated_block = EXCLUDED.updated_block;
+
+  INSERT INTO public.tipn_indexer_state (id, start_block, last_indexed_block, updated_at)
+  VALUES (p_indexer, p_start_block, p_last_block, NOW())
+  ON CONFLICT (id) DO UPDATE
+    SET last_indexed_block = EXCLUDED.last_indexed_block,
+        updated_at = NOW();
+END;
+$$;
+
+-- Only the indexer function (service role) writes; the browser's anon key reads balances
+ALTER TABLE public.tipn_indexer_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tipn_indexed_balances ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read access" ON public.tipn_indexer_state;
+CREATE POLICY "Public read access" ON public.tipn_indexer_state FOR SELECT USING (true);
+REVOKE INSERT, UPDATE, DELETE ON public.tipn_indexer_state FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Public read access" ON public.tipn_indexed_balances;
+CREATE POLICY "Public read access" ON public.tipn_indexed_balances FOR SELECT USING (true);
+REVOKE INSERT, UPDATE, DELETE ON public.tipn_indexed_balances FROM anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.tipn_apply_indexer_batch(TEXT, BIGINT, BIGINT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.tipn_apply_indexer_batch(TEXT, BIGINT, BIGINT, JSONB) TO service_role;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.tipn_indexer_state IS 'Resumable checkpoints for on-chain indexers';
+COMMENT ON COLUMN public.tipn_indexer_state.start_block IS 'Block the indexer started replaying from';
+COMMENT ON COLUMN public.tipn_indexer_state.last_indexed_block IS 'Last block whose Transfer logs are reflected in tipn_indexed_balances';
+COMMENT ON TABLE public.tipn_indexed_balances IS 'Staking token balances rebuilt from Transfer logs';
+COMMENT ON COLUMN public.tipn_indexed_balances.balance IS 'Balance in wei as of tipn_indexer_state.last_indexed_block';
+COMMENT ON COLUMN public.tipn_indexed_balances.updated_block IS 'Checkpoint block of the batch that last changed this balance';
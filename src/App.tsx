@@ -1,16 +1,33 @@
 // src/App.tsx
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import sdk from '@farcaster/frame-sdk'
+import { Routes, Route } from 'react-router-dom'
+import { erc20Abi } from 'viem'
+import { useAccount, useConnect, useDisconnect, useReadContract, useSwitchChain } from 'wagmi'
+import { BASE_MAINNET, TIPN_CONFIG } from './config/blockchain'
+import { WALLET_CONNECTORS } from './config/wagmi'
 import ErrorBoundary from './components/ErrorBoundary'
 import Leaderboard from './components/Leaderboard'
 import FarcasterConnector from './components/FarcasterConnector'
+import StakerProfile from './components/StakerProfile'
+import CacheDebugPanel from './components/CacheDebugPanel'
+
+export type WalletConnectorId = typeof WALLET_CONNECTORS[keyof typeof WALLET_CONNECTORS]
 
 interface FarcasterContext {
   isSDKReady: boolean
   user: any | null
-  isConnected: boolean
-  connect: () => Promise<void>
+  isConnected: boolean // A wallet is connected (Farcaster wallet in the mini app, browser or WalletConnect on the web)
+  isConnecting: boolean
+  connectedAddress: `0x${string}` | null
+  chainId: number | null
+  isWrongChain: boolean // Connected, but not on Base
+  balance: bigint | null // Unstaked TIPN in the connected wallet, in wei
+  availableConnectors: WalletConnectorId[]
+  connectError: string | null
+  connect: (connectorId?: WalletConnectorId) => Promise<void>
   disconnect: () => void
+  switchToBase: () => Promise<void>
   context: any | null
   isFrameContext: boolean
 }
@@ -19,26 +36,63 @@ export const FarcasterContext = React.createContext<FarcasterContext>({
   isSDKReady: false,
   user: null,
   isConnected: false,
+  isConnecting: false,
+  connectedAddress: null,
+  chainId: null,
+  isWrongChain: false,
+  balance: null,
+  availableConnectors: [],
+  connectError: null,
   connect: async () => {},
   disconnect: () => {},
+  switchToBase: async () => {},
   context: null,
   isFrameContext: false
 })
 
+function hasInjectedWallet(): boolean {
+  return typeof window !== 'undefined' && 'ethereum' in window
+}
+
+// Readable message for wallet errors (viem/wagmi errors carry a shortMessage)
+function walletErrorMessage(error: unknown, fallback: string): string {
+  const shortMessage = (error as { shortMessage?: unknown } | null)?.shortMessage
+  if (typeof shortMessage === 'string') return shortMessage
+  return error instanceof Error ? error.message : fallback
+}
+
 function App() {
   const [isSDKReady, setIsSDKReady] = useState(false)
   const [user, setUser] = useState<any>(null)
-  const [isConnected, setIsConnected] = useState(false)
   const [context, setContext] = useState<any>(null)
   const [isFrameContext, setIsFrameContext] = useState(false)
+  const [connectError, setConnectError] = useState<string | null>(null)
+  const autoConnectAttempted = useRef(false)
+
+  const account = useAccount()
+  const { connectAsync, connectors, isPending: isConnecting } = useConnect()
+  const { disconnect: disconnectWallet } = useDisconnect()
+  const { switchChainAsync } = useSwitchChain()
+
+  const connectedAddress = account.address ?? null
+  const { data: balance } = useReadContract({
+    address: TIPN_CONFIG.contractAddress,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: connectedAddress ? [connectedAddress] : undefined,
+    chainId: BASE_MAINNET.id,
+    query: { enabled: !!connectedAddress }
+  })
+
+  const findConnector = (id: WalletConnectorId) => connectors.find(connector => connector.id === id)
 
   useEffect(() => {
     const initializeFrameSDK = async () => {
       try {
         console.log('🔗 Initializing Farcaster Frame SDK...')
         
-        // Check if we're in a Farcaster frame context
-        const isInFrame = typeof window !== 'undefined' && window.parent !== window
+        // Check if we're running as a Farcaster Mini App (iframe on web, webview on mobile)
+        const isInFrame = await sdk.isInMiniApp()
         setIsFrameContext(isInFrame)
         
         if (isInFrame) {
@@ -54,8 +108,10 @@ function App() {
           if (frameContext?.user) {
             console.log('✅ User authenticated via Farcaster frame:', frameContext.user)
             setUser(frameContext.user)
-            setIsConnected(true)
           }
+
+          // Hide the client's splash screen
+          await sdk.actions.ready()
         } else {
           console.log('🌐 Running in regular browser (not in frame)')
         }
@@ -71,50 +127,77 @@ function App() {
     initializeFrameSDK()
   }, [])
 
-  const connect = async () => {
+  // Inside the mini app the client's wallet is available without a prompt, so connect it once
+  // (after wagmi has restored any previous connection)
+  useEffect(() => {
+    if (!isFrameContext || account.status !== 'disconnected' || autoConnectAttempted.current) return
+    const farcasterConnector = connectors.find(connector => connector.id === WALLET_CONNECTORS.FARCASTER)
+    if (!farcasterConnector) return
+
+    autoConnectAttempted.current = true
+    connectAsync({ connector: farcasterConnector })
+      .then(result => console.log('✅ Farcaster wallet connected:', result.accounts[0]))
+      .catch(error => console.warn('⚠️ Farcaster wallet not available:', error))
+  }, [isFrameContext, account.status, connectors, connectAsync])
+
+  // Connectors offered in this context: the client's wallet inside Farcaster, otherwise a
+  // browser wallet (if one is installed) and WalletConnect (if configured)
+  const availableConnectors: WalletConnectorId[] = isFrameContext
+    ? [WALLET_CONNECTORS.FARCASTER]
+    : [
+        ...(hasInjectedWallet() ? [WALLET_CONNECTORS.INJECTED] : []),
+        ...(findConnector(WALLET_CONNECTORS.WALLETCONNECT) ? [WALLET_CONNECTORS.WALLETCONNECT] : [])
+      ]
+
+  const connect = async (connectorId: WalletConnectorId | undefined = availableConnectors[0]) => {
+    setConnectError(null)
+
+    const connector = connectorId ? findConnector(connectorId) : undefined
+    if (!connector) {
+      console.log('ℹ️ No wallet connector available in this context')
+      setConnectError('No wallet found. Install a browser wallet or open this app in Farcaster.')
+      return
+    }
+
     try {
-      console.log('🔗 Attempting to connect wallet...')
-      
-      // Check if we have wallet functionality
-      if (sdk.wallet && sdk.wallet.ethProvider) {
-        console.log('💰 Wallet provider available')
-        
-        // Request account access
-        const accounts = await sdk.wallet.ethProvider.request({
-          method: 'eth_requestAccounts'
-        })
-        
-        if (accounts && accounts.length > 0) {
-          console.log('✅ Wallet connected:', accounts[0])
-          setIsConnected(true)
-          
-          // You might want to store the connected address
-          // setConnectedAddress(accounts[0])
-        }
-      } else {
-        console.log('ℹ️ No wallet functionality available in this context')
-        // For regular browsers, you might want to show a message or redirect
-        alert('Please open this app in Warpcast or connect through a Web3 wallet')
-      }
-      
+      console.log(`🔗 Connecting wallet via ${connector.name}...`)
+      const result = await connectAsync({ connector, chainId: BASE_MAINNET.id })
+      console.log('✅ Wallet connected:', result.accounts[0])
     } catch (error) {
       console.error('❌ Failed to connect wallet:', error)
-      alert('Failed to connect wallet. Please try again.')
+      setConnectError(walletErrorMessage(error, 'Failed to connect wallet. Please try again.'))
     }
   }
 
   const disconnect = () => {
-    setIsConnected(false)
-    setUser(null)
+    disconnectWallet()
+    setConnectError(null)
     console.log('🔌 Disconnected')
   }
 
+  const switchToBase = async () => {
+    try {
+      await switchChainAsync({ chainId: BASE_MAINNET.id })
+    } catch (error) {
+      console.error('❌ Failed to switch to Base:', error)
+      setConnectError(walletErrorMessage(error, 'Failed to switch to Base.'))
+    }
+  }
+
   const contextValue: FarcasterContext = {
     isSDKReady,
     user,
-    isConnected,
+    isConnected: account.isConnected,
+    isConnecting,
+    connectedAddress,
+    chainId: account.chainId ?? null,
+    isWrongChain: account.isConnected && account.chainId !== BASE_MAINNET.id,
+    balance: balance ?? null,
+    availableConnectors,
+    connectError,
     connect,
     disconnect,
+    switchToBase,
     context,
     isFrameContext
   }
@@ -136,7 +219,11 @@ function App() {
       <ErrorBoundary>
         <div className="min-h-screen bg-slate-900 text-white">
           <FarcasterConnector />
-          <Leaderboard />
+          <Routes>
+            <Route path="/" element={<Leaderboard />} />
+            <Route path="/staker/:address" element={<StakerProfile />} />
+          </Routes>
+          <CacheDebugPanel />
         </div>
       </ErrorBoundary>
     </FarcasterContext.Provider>
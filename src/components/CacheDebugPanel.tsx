@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react'
+import { useLocation } from 'react-router-dom'
+import { Database } from 'lucide-react'
+import { clearAllCaches, getCacheStats, resetCacheStats, type CacheStats } from '@/lib/persistentCache'
+import { getRateLimitStatus } from '@/services/cachedIdentityService'
+import type { RateLimitStatus } from '@/core/rateLimit'
+
+const POLL_INTERVAL_MS = 2000
+// Rate limit status is a Supabase query, so it's polled less often
+const RATE_LIMIT_POLL_INTERVAL_MS = 10000
+
+function hitRate(stats: CacheStats): string {
+  const hits = stats.hits + stats.notFoundHits + stats.errorHits
+  const total = hits + stats.misses
+  return total === 0 ? '–' : `${Math.round((hits / total) * 100)}%`
+}
+
+// Identity cache hit/miss stats and provider rate limit budgets, shown when the URL has ?debug=cache
+const CacheDebugPanel: React.FC = () => {
+  const { search } = useLocation()
+  const enabled = new URLSearchParams(search).get('debug') === 'cache'
+  const [stats, setStats] = useState<CacheStats[]>([])
+  const [rateLimits, setRateLimits] = useState<RateLimitStatus[]>([])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    setStats(getCacheStats())
+    const timer = setInterval(() => setStats(getCacheStats()), POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const loadRateLimits = () => {
+      getRateLimitStatus()
+        .then(setRateLimits)
+        .catch((error) => console.warn('Failed to load rate limit status:', error))
+    }
+    loadRateLimits()
+    const timer = setInterval(loadRateLimits, RATE_LIMIT_POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [enabled])
+
+  if (!enabled) return null
+
+  const handleClear = async () => {
+    await clearAllCaches()
+    setStats(getCacheStats())
+  }
+
+  const handleReset = () => {
+    resetCacheStats()
+    setStats(getCacheStats())
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[26rem] max-w-[calc(100vw-2rem)] bg-slate-900/95 border border-slate-600 rounded-xl shadow-2xl p-4 text-xs text-slate-300">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 font-semibold text-white">
+          <Database className="w-4 h-4 text-purple-400" />
+          Identity cache
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={handleReset} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600">
+            Reset stats
+          </button>
+          <button type="button" onClick={handleClear} className="px-2 py-1 rounded bg-red-900/60 hover:bg-red-800/60 text-red-200">
+            Clear caches
+          </button>
+        </div>
+      </div>
+
+      {stats.length === 0 ? (
+        <p className="text-slate-500">No caches in use yet.</p>
+      ) : (
+        <table className="w-full text-right">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="text-left font-medium pb-1">Cache</th>
+              <th className="font-medium pb-1">Size</th>
+              <th className="font-medium pb-1">Hits</th>
+              <th className="font-medium pb-1" title="Cached 'not found' results">Neg.</th>
+              <th className="font-medium pb-1" title="Cached errors">Err.</th>
+              <th className="font-medium pb-1">Misses</th>
+              <th className="font-medium pb-1">Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(cache => (
+              <tr key={cache.namespace} className="border-t border-slate-700/50">
+                <td className="text-left py-1 text-white">
+                  {cache.namespace}
+                  {!cache.persistent && <span className="text-amber-400" title="IndexedDB unavailable"> (memory)</span>}
+                </td>
+                <td title={`${cache.evictions} evicted, ${cache.writes} writes`}>{cache.size}/{cache.maxEntries}</td>
+                <td className="text-green-400">{cache.hits}</td>
+                <td>{cache.notFoundHits}</td>
+                <td className="text-amber-400">{cache.errorHits}</td>
+                <td className="text-red-400">{cache.misses}</td>
+                <td>{hitRate(cache)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {rateLimits.length > 0 && (
+        <table className="w-full text-right mt-3">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="text-left font-medium pb-1">
+                Rate limit
+                {!rateLimits[0].shared && <span className="text-amber-400" title="Shared store unavailable"> (this tab)</span>}
+              </th>
+              <th className="font-medium pb-1">Used</th>
+              <th className="font-medium pb-1">Available</th>
+              <th className="font-medium pb-1">Refill/h</th>
+              <th className="font-medium pb-1" title="Requests refused since the bucket was created">Denied</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rateLimits.map(limit => (
+              <tr key={limit.provider} className="border-t border-slate-700/50">
+                <td className="text-left py-1 text-white">{limit.provider}</td>
+                <td title={`${limit.totalTaken} taken in total`}>{limit.used}/{limit.capacity}</td>
+                <td className={limit.available === 0 ? 'text-red-400' : 'text-green-400'}>{limit.available}</td>
+                <td>{limit.refillPerHour}</td>
+                <td className="text-amber-400">{limit.totalDenied}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default CacheDebugPanel
@@ -0,0 +1,56 @@
+// src/components/DroppedOutList.tsx
+import React, { useState } from 'react'
+import { ChevronDown, ChevronUp, ExternalLink, TrendingDown } from 'lucide-react'
+import { formatAddress, formatTokenAmount, getBaseScanUrl } from '@/utils/format'
+import type { DroppedStaker } from '@/types'
+
+interface DroppedOutListProps {
+  stakers: DroppedStaker[]
+}
+
+const DroppedOutList: React.FC<DroppedOutListProps> = ({ stakers }) => {
+  const [isOpen, setIsOpen] = useState(false)
+
+  if (stakers.length === 0) return null
+
+  return (
+    <div className="mt-6 md:mt-8 bg-slate-800/50 backdrop-blur-sm rounded-xl md:rounded-2xl border border-slate-700/50 mx-2 md:mx-0">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 md:px-6 py-3 md:py-4 text-left"
+      >
+        <span className="flex items-center gap-2 font-semibold text-slate-200 text-sm md:text-base">
+          <TrendingDown className="w-4 h-4 md:w-5 md:h-5 text-red-400" />
+          Dropped out since last snapshot
+          <span className="text-slate-400 font-normal">({stakers.length})</span>
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <ul className="divide-y divide-slate-700/50 border-t border-slate-700/50">
+          {stakers.map(staker => (
+            <li key={staker.address} className="flex items-center justify-between px-4 md:px-6 py-2 md:py-3 text-sm">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-slate-400 font-bold w-12">#{staker.previousRank}</span>
+                <a
+                  href={getBaseScanUrl(staker.address)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-slate-300 hover:text-white transition-colors flex items-center gap-1 truncate"
+                >
+                  {formatAddress(staker.address)}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              </div>
+              <span className="text-slate-400">{formatTokenAmount(staker.amount)} TIPN</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default DroppedOutList
@@ -1,53 +1,115 @@
 // src/components/FarcasterConnector.tsx
-import React, { useContext, useState, useEffect } from 'react'
-import { User, Crown } from 'lucide-react'
-import { FarcasterContext } from '../App'
+import React, { useContext } from 'react'
+import { User, Crown, Share2, Wallet, LogOut, AlertTriangle } from 'lucide-react'
+import { FarcasterContext, type WalletConnectorId } from '../App'
+import { WALLET_CONNECTORS } from '@/config/wagmi'
+import { useMyRank } from '@/hooks/useMyRank'
+import { useMiniAppActions } from '@/hooks/useMiniAppActions'
+import NotificationSettingsPanel from './NotificationSettingsPanel'
+import { formatAddress, formatTokenAmount } from '@/utils/format'
+import { FARCASTER_WEB_URL } from '@/core/identity'
+import { APP_URL } from '@/config/blockchain'
+import { getStakerPageUrl } from '@/core/miniApp'
+
+const CONNECTOR_LABELS: Record<WalletConnectorId, string> = {
+  [WALLET_CONNECTORS.FARCASTER]: 'Farcaster Wallet',
+  [WALLET_CONNECTORS.INJECTED]: 'Browser Wallet',
+  [WALLET_CONNECTORS.WALLETCONNECT]: 'WalletConnect'
+}
 
 const FarcasterConnector: React.FC = () => {
-  const { isSDKReady, user, isConnected } = useContext(FarcasterContext)
-  const [userPosition, setUserPosition] = useState<{ rank: number; amount: string } | null>(null)
-  const [isSearching, setIsSearching] = useState(false)
+  const {
+    isSDKReady,
+    user,
+    isConnected,
+    isConnecting,
+    connectedAddress,
+    isWrongChain,
+    balance,
+    availableConnectors,
+    connectError,
+    connect,
+    disconnect,
+    switchToBase
+  } = useContext(FarcasterContext)
 
-  // Check user's position in leaderboard when connected
-  useEffect(() => {
-    if (user?.verifiedAddresses?.ethAddresses?.length > 0) {
-      findUserPosition(user.verifiedAddresses.ethAddresses[0])
-    } else if (user?.custodyAddress) {
-      // Fallback to custody address if no verified addresses
-      findUserPosition(user.custodyAddress)
-    }
-  }, [user])
+  // Rank the connected wallet together with the user's verified addresses, falling back to the custody address
+  const verifiedAddresses: string[] = user?.verifiedAddresses?.ethAddresses || []
+  const profileAddresses = verifiedAddresses.length > 0 ? verifiedAddresses : user?.custodyAddress ? [user.custodyAddress] : []
+  const addresses = [...new Set([...(connectedAddress ? [connectedAddress] : []), ...profileAddresses].map(address => address.toLowerCase()))]
+  const { data: userPosition, isLoading: isSearching } = useMyRank(addresses)
+  const { composeCast } = useMiniAppActions()
 
-  const findUserPosition = async (address: string) => {
-    setIsSearching(true)
-    try {
-      // This would integrate with your existing staker data
-      // For now, we'll simulate checking the leaderboard
-      console.log('🔍 Searching for user position:', address)
-      
-      // In a real implementation, you'd query your Supabase data
-      // const { data } = await supabase.from('tipn_stakers').select('rank, amount').eq('address', address.toLowerCase()).single()
-      
-      // Simulate search delay
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // For demo purposes, generate a random position
-      const mockRank = Math.floor(Math.random() * 1000) + 1
-      const mockAmount = (Math.random() * 100000).toFixed(2)
-      
-      setUserPosition({ rank: mockRank, amount: mockAmount })
-    } catch (error) {
-      console.log('ℹ️ User not found in top 1000 stakers')
-      setUserPosition(null)
-    } finally {
-      setIsSearching(false)
-    }
+  // The staker page embeds as the user's rank card with a button that opens the app
+  const shareRank = () => {
+    if (!userPosition?.rank) return
+    const topPercent = userPosition.percentile !== null ? ` (top ${Math.max(100 - userPosition.percentile, 0.1).toFixed(1)}%)` : ''
+    composeCast(
+      `I'm rank #${userPosition.rank.toLocaleString()}${topPercent} on the Top Tipners leaderboard with ${formatTokenAmount(userPosition.amount)} TIPN staked! 🔥\n\nCheck your rank: ${APP_URL}`,
+      [getStakerPageUrl(userPosition.address)]
+    )
   }
 
   if (!isSDKReady) return null
 
-  // Don't show connector if user is already authenticated via Farcaster context
-  if (user && !isConnected) {
+  const rankChip = isSearching ? (
+    <div className="text-sm text-purple-300">Checking your rank...</div>
+  ) : userPosition ? (
+    <div className="bg-purple-800/50 rounded-lg px-3 py-1">
+      <div className="flex items-center gap-2">
+        <Crown className="w-4 h-4 text-yellow-400" />
+        <span className="text-sm font-medium text-white">
+          Rank #{userPosition.rank?.toLocaleString()}
+        </span>
+        <span className="text-xs text-purple-300">
+          {formatTokenAmount(userPosition.amount)} TIPN
+        </span>
+        {userPosition.percentile !== null && (
+          <span className="hidden sm:inline text-xs text-purple-300">
+            · Top {Math.max(100 - userPosition.percentile, 0.1).toFixed(1)}%
+          </span>
+        )}
+        {userPosition.distanceToNextRank !== null && (
+          <span className="hidden md:inline text-xs text-purple-400">
+            · {formatTokenAmount(userPosition.distanceToNextRank)} to next rank
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={shareRank}
+          className="ml-1 text-purple-300 hover:text-white transition-colors"
+          title="Share your rank"
+        >
+          <Share2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  ) : (
+    <div className="text-xs text-purple-400">
+      No TIPN staked yet
+    </div>
+  )
+
+  const walletStatus = connectedAddress && (
+    <div className="flex items-center gap-2 text-xs text-purple-300">
+      <Wallet className="w-3 h-3" />
+      <span className="font-mono">{formatAddress(connectedAddress)}</span>
+      {balance !== null && <span>· {formatTokenAmount(balance)} TIPN in wallet</span>}
+      {isWrongChain && (
+        <button
+          type="button"
+          onClick={switchToBase}
+          className="flex items-center gap-1 text-yellow-400 hover:text-yellow-300"
+        >
+          <AlertTriangle className="w-3 h-3" />
+          Switch to Base
+        </button>
+      )}
+    </div>
+  )
+
+  // Signed in via the Farcaster client (mini app); its wallet connects automatically
+  if (user) {
     return (
       <div className="bg-purple-900/20 border-b border-purple-500/30">
         <div className="container mx-auto px-4 py-3 max-w-7xl">
@@ -60,65 +122,106 @@ const FarcasterConnector: React.FC = () => {
                 <p className="text-sm font-medium text-purple-200">
                   Welcome, @{user.username || 'Farcaster User'}!
                 </p>
-                <p className="text-xs text-purple-300">
-                  Connected via Farcaster
-                </p>
+                {walletStatus || (
+                  <p className="text-xs text-purple-300">
+                    Connected via Farcaster
+                  </p>
+                )}
               </div>
             </div>
             
-            {user.verifiedAddresses?.ethAddresses?.length > 0 && (
-              <div className="flex items-center gap-2">
-                {isSearching ? (
-                  <div className="text-sm text-purple-300">Checking your rank...</div>
-                ) : userPosition ? (
-                  <div className="bg-purple-800/50 rounded-lg px-3 py-1">
-                    <div className="flex items-center gap-2">
-                      <Crown className="w-4 h-4 text-yellow-400" />
-                      <span className="text-sm font-medium text-white">
-                        Rank #{userPosition.rank}
-                      </span>
-                      <span className="text-xs text-purple-300">
-                        {userPosition.amount} TIPN
-                      </span>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="text-xs text-purple-400">
-                    Not in top 1000
-                  </div>
-                )}
-              </div>
-            )}
+            <div className="flex items-center gap-2">
+              {addresses.length > 0 && (
+                <div className="flex items-center gap-2">
+                  {rankChip}
+                </div>
+              )}
+              <NotificationSettingsPanel />
+            </div>
           </div>
         </div>
       </div>
     )
   }
 
-  // Optional: Show minimal notice for web users (don't require connection)
-  if (!user) {
+  // Web user with a connected wallet
+  if (isConnected && connectedAddress) {
     return (
-      <div className="bg-slate-800/30 border-b border-slate-700/30">
-        <div className="container mx-auto px-4 py-2 max-w-7xl">
-          <div className="flex flex-col sm:flex-row items-center justify-center gap-2 text-center">
-            <p className="text-sm text-slate-400">
-              💡 For wallet connection & personalized rank, open in 
-            </p>
-            <a
-              href="https://warpcast.com"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-sm text-purple-400 hover:text-purple-300 underline"
-            >
-              Warpcast
-            </a>
+      <div className="bg-purple-900/20 border-b border-purple-500/30">
+        <div className="container mx-auto px-4 py-3 max-w-7xl">
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center">
+                <Wallet className="w-4 h-4 text-white" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-purple-200">
+                  Wallet connected
+                </p>
+                {walletStatus}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {rankChip}
+              <button
+                type="button"
+                onClick={disconnect}
+                className="p-1.5 rounded-lg text-purple-300 hover:text-white hover:bg-purple-800/50 transition-colors"
+                title="Disconnect wallet"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
       </div>
     )
   }
 
-  return null
+  // Web user without a wallet: offer the available connectors (connecting is optional)
+  return (
+    <div className="bg-slate-800/30 border-b border-slate-700/30">
+      <div className="container mx-auto px-4 py-2 max-w-7xl">
+        <div className="flex flex-col sm:flex-row items-center justify-center gap-2 text-center">
+          {availableConnectors.length > 0 ? (
+            <>
+              <p className="text-sm text-slate-400">
+                💡 Connect a wallet to see your rank
+              </p>
+              {availableConnectors.map(connectorId => (
+                <button
+                  key={connectorId}
+                  type="button"
+                  onClick={() => connect(connectorId)}
+                  disabled={isConnecting}
+                  className="text-sm bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg px-3 py-1"
+                >
+                  {CONNECTOR_LABELS[connectorId]}
+                </button>
+              ))}
+              <p className="text-sm text-slate-400">or open in</p>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">
+              💡 For wallet connection & personalized rank, open in 
+            </p>
+          )}
+          <a
+            href={FARCASTER_WEB_URL}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-purple-400 hover:text-purple-300 underline"
+          >
+            Farcaster
+          </a>
+        </div>
+        {connectError && (
+          <p className="text-xs text-red-400 text-center mt-1">{connectError}</p>
+        )}
+      </div>
+    </div>
+  )
 }
 
-export default FarcasterConnector
\ No newline at end of file
+export default FarcasterConnector
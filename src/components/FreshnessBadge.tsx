@@ -0,0 +1,51 @@
+import React from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { AlertTriangle } from 'lucide-react'
+import { useRefreshStatus } from '@/hooks/useRefreshStatus'
+
+// "As of block N, X minutes ago" from the server-side refresh run log, with a stale warning
+const FreshnessBadge: React.FC = () => {
+  const { data: status, isError } = useRefreshStatus()
+
+  if (isError || (status && !status.dataAsOf)) {
+    return (
+      <div className="flex items-center gap-2 bg-slate-800/50 backdrop-blur-sm rounded-full px-3 py-1.5 md:px-4 md:py-2 border border-slate-600/50">
+        <span className="w-1.5 h-1.5 md:w-2 md:h-2 bg-slate-400 rounded-full" />
+        <span className="text-slate-300 font-medium">Data freshness unknown</span>
+      </div>
+    )
+  }
+
+  if (!status?.dataAsOf) return null
+
+  const lastRunFailed = status.latestRefresh?.status === 'failed'
+  const title = [
+    `Last successful refresh: ${status.dataAsOf.toLocaleString()}`,
+    lastRunFailed ? `Latest refresh failed: ${status.latestRefresh?.error || 'unknown error'}` : null,
+    status.latestEnrichment?.finishedAt
+      ? `Identities last enriched ${formatDistanceToNow(status.latestEnrichment.finishedAt, { addSuffix: true })}`
+      : null
+  ].filter(Boolean).join('\n')
+
+  return (
+    <div
+      className={`flex items-center gap-2 bg-slate-800/50 backdrop-blur-sm rounded-full px-3 py-1.5 md:px-4 md:py-2 border ${
+        status.isStale ? 'border-amber-500/50' : 'border-slate-600/50'
+      }`}
+      title={title}
+    >
+      {status.isStale ? (
+        <AlertTriangle className="w-3.5 h-3.5 md:w-4 md:h-4 text-amber-400" />
+      ) : (
+        <span className="w-1.5 h-1.5 md:w-2 md:h-2 bg-green-400 rounded-full animate-pulse" />
+      )}
+      <span className={`font-medium ${status.isStale ? 'text-amber-300' : 'text-green-300'}`}>
+        {status.blockNumber !== null && `As of block ${status.blockNumber.toLocaleString()}, `}
+        {formatDistanceToNow(status.dataAsOf, { addSuffix: true })}
+        {status.isStale && ' (may be stale)'}
+      </span>
+    </div>
+  )
+}
+
+export default FreshnessBadge
@@ -0,0 +1,90 @@
+// src/components/HistoryChart.tsx
+import React, { useMemo } from 'react'
+import { format } from 'date-fns'
+import { formatUnits } from 'viem'
+import { TIPN_CONFIG } from '@/config/blockchain'
+import type { StakerHistoryPoint } from '@/services/rankHistoryService'
+
+interface HistoryChartProps {
+  points: StakerHistoryPoint[]
+  metric: 'rank' | 'amount'
+}
+
+const WIDTH = 600
+const HEIGHT = 220
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 }
+
+const HistoryChart: React.FC<HistoryChartProps> = ({ points, metric }) => {
+  const chart = useMemo(() => {
+    if (points.length === 0) return null
+
+    const values = points.map(point =>
+      metric === 'rank' ? point.rank : Number(formatUnits(point.amount, TIPN_CONFIG.decimals))
+    )
+    const times = points.map(point => point.capturedAt.getTime())
+
+    const minValue = Math.min(...values)
+    const maxValue = Math.max(...values)
+    const valueRange = maxValue - minValue || 1
+    const minTime = times[0]
+    const timeRange = times[times.length - 1] - minTime || 1
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+    const toX = (time: number) => PADDING.left + ((time - minTime) / timeRange) * plotWidth
+    // Rank 1 is best, so the rank axis is inverted to keep "up" meaning "better"
+    const toY = (value: number) => {
+      const ratio = (value - minValue) / valueRange
+      return metric === 'rank'
+        ? PADDING.top + ratio * plotHeight
+        : PADDING.top + (1 - ratio) * plotHeight
+    }
+
+    const coordinates = points.map((_, i) => ({ x: toX(times[i]), y: toY(values[i]) }))
+
+    return {
+      path: coordinates.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' '),
+      coordinates,
+      topLabel: metric === 'rank' ? `#${minValue}` : maxValue.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+      bottomLabel: metric === 'rank' ? `#${maxValue}` : minValue.toLocaleString(undefined, { maximumFractionDigits: 0 }),
+      startLabel: format(points[0].capturedAt, 'MMM d'),
+      endLabel: format(points[points.length - 1].capturedAt, 'MMM d'),
+    }
+  }, [points, metric])
+
+  if (!chart) {
+    return (
+      <div className="h-40 flex items-center justify-center text-sm text-slate-400">
+        No history recorded yet
+      </div>
+    )
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={metric === 'rank' ? 'Rank history' : 'Staked amount history'}
+    >
+      {/* Axes */}
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} className="stroke-slate-600" />
+      <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} className="stroke-slate-600" />
+
+      {/* Axis labels */}
+      <text x={PADDING.left - 8} y={PADDING.top + 4} textAnchor="end" className="fill-slate-400 text-[11px]">{chart.topLabel}</text>
+      <text x={PADDING.left - 8} y={HEIGHT - PADDING.bottom} textAnchor="end" className="fill-slate-400 text-[11px]">{chart.bottomLabel}</text>
+      <text x={PADDING.left} y={HEIGHT - 8} className="fill-slate-400 text-[11px]">{chart.startLabel}</text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-slate-400 text-[11px]">{chart.endLabel}</text>
+
+      {/* Series */}
+      <polyline points={chart.path} fill="none" className="stroke-purple-400" strokeWidth={2} strokeLinejoin="round" />
+      {chart.coordinates.length <= 60 && chart.coordinates.map(({ x, y }, i) => (
+        <circle key={points[i].capturedAt.getTime()} cx={x} cy={y} r={2.5} className="fill-purple-300" />
+      ))}
+    </svg>
+  )
+}
+
+export default HistoryChart
@@ -0,0 +1,59 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ExternalLink } from 'lucide-react'
+import { formatTokenAmount, getBaseScanUrl } from '@/utils/format'
+import type { IdentityGroup } from '@/types'
+import LeaderboardRow from './LeaderboardRow'
+
+interface IdentityGroupRowProps {
+  group: IdentityGroup
+  rank: number
+}
+
+// One identity in the group-by-identity view, expandable into its per-wallet breakdown
+const IdentityGroupRow: React.FC<IdentityGroupRowProps> = ({ group, rank }) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <>
+      <LeaderboardRow
+        staker={group.staker}
+        rank={rank}
+        walletCount={group.wallets.length}
+        isExpanded={isExpanded}
+        onToggleExpand={() => setIsExpanded(!isExpanded)}
+      />
+      {isExpanded && group.wallets.map(wallet => (
+        <tr key={wallet.address} className="bg-slate-900/40 text-sm">
+          <td
+            className="px-2 md:px-4 lg:px-8 py-2 text-center text-xs text-slate-500"
+            title={wallet.isUnlisted ? 'Wallet rank (outside this list)' : 'Wallet rank'}
+          >
+            #{wallet.rank}{wallet.isUnlisted && '+'}
+          </td>
+          <td className="px-2 md:px-4 lg:px-8 py-2">
+            <div className="flex items-center gap-2 pl-9 md:pl-12 font-mono text-xs">
+              <Link to={`/staker/${wallet.address}`} className="text-slate-300 hover:text-purple-400 transition-colors">
+                {wallet.address.slice(0, 6)}...{wallet.address.slice(-4)}
+              </Link>
+              <a
+                href={getBaseScanUrl(wallet.address)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-slate-500 hover:text-slate-300 transition-colors"
+                title={`View on BaseScan: ${wallet.address}`}
+              >
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+          </td>
+          <td className="px-2 md:px-4 lg:px-8 py-2 text-right text-purple-300">
+            {formatTokenAmount(wallet.amount)} TIPN
+          </td>
+        </tr>
+      ))}
+    </>
+  )
+}
+
+export default IdentityGroupRow
@@ -1,7 +1,13 @@
-import React, { useState, useMemo, useEffect } from 'react'
+import React, { useState, useMemo } from 'react'
 import { RefreshCw } from 'lucide-react'
 import { useQueryClient } from '@tanstack/react-query'
-import { useTopStakers, forceRefreshStakers, backgroundEnrichStakers } from '@/hooks/useTopStakers'
+import {
+  useTopStakers,
+  useDroppedStakers,
+  useFullStakerList,
+  useHolderCount,
+  useIdentityStakers
+} from '@/hooks/useTopStakers'
 import SearchBar from './SearchBar'
 import StatsGrid from './StatsGrid'
 import LeaderboardRow from './LeaderboardRow'
@@ -10,33 +16,65 @@ import LoadingSpinner from './LoadingSpinner'
 import ErrorState from './ErrorState'
 import Footer from './Footer'
 import CSVExport from './CSVExport'
+import DroppedOutList from './DroppedOutList'
+import FreshnessBadge from './FreshnessBadge'
+import IdentityGroupRow from './IdentityGroupRow'
+import { groupStakersByIdentity } from '@/utils/identity'
+import type { StakerWithIdentity } from '@/types'
 
 const ITEMS_PER_PAGE = 50
 
+function matchesSearch(staker: StakerWithIdentity, searchTerm: string): boolean {
+  const term = searchTerm.toLowerCase()
+  return (
+    staker.address.toLowerCase().includes(term) ||
+    staker.displayName.toLowerCase().includes(term) ||
+    !!(staker.farcasterUsername && staker.farcasterUsername.toLowerCase().includes(term)) ||
+    !!(staker.ensName && staker.ensName.toLowerCase().includes(term)) ||
+    !!(staker.basename && staker.basename.toLowerCase().includes(term))
+  )
+}
+
 const Leaderboard: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1)
   const [searchTerm, setSearchTerm] = useState('')
   const [isManualRefreshing, setIsManualRefreshing] = useState(false)
+  const [showFullList, setShowFullList] = useState(false)
+  const [groupByIdentity, setGroupByIdentity] = useState(false)
   
   const queryClient = useQueryClient()
   const { data: stakers, isLoading, isError, refetch } = useTopStakers()
+  const { data: droppedStakers } = useDroppedStakers()
+  const { data: holderCount } = useHolderCount()
+  const { data: fullStakers, isFetching: isLoadingFullList } = useFullStakerList(stakers, showFullList)
+
+  // Full list mode falls back to the top 1000 until the full list has loaded
+  const isFullListShown = showFullList && !!fullStakers
+  const listedStakers = isFullListShown ? fullStakers : stakers
+  const { data: identityStakers } = useIdentityStakers(listedStakers, isFullListShown ? 'full' : 'top', groupByIdentity)
 
   const filteredStakers = useMemo(() => {
-    if (!stakers) return []
-    if (!searchTerm) return stakers
+    if (!listedStakers) return []
+    if (!searchTerm) return listedStakers
     
-    return stakers.filter(staker => 
-      staker.address.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      staker.displayName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (staker.farcasterUsername && staker.farcasterUsername.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (staker.ensName && staker.ensName.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (staker.basename && staker.basename.toLowerCase().includes(searchTerm.toLowerCase()))
-    )
-  }, [stakers, searchTerm])
+    return listedStakers.filter(staker => matchesSearch(staker, searchTerm))
+  }, [listedStakers, searchTerm])
+
+  // Identities rank on the sum of all their wallets; a group matches if any wallet does
+  // Until the verified wallets have loaded, only the listed wallets are summed
+  const filteredGroups = useMemo(() => {
+    const groupedStakers = identityStakers || listedStakers
+    if (!groupByIdentity || !groupedStakers) return []
+    const groups = groupStakersByIdentity(groupedStakers)
+    if (!searchTerm) return groups
 
-  const totalPages = Math.ceil(filteredStakers.length / ITEMS_PER_PAGE)
+    return groups.filter(group => group.wallets.some(wallet => matchesSearch(wallet, searchTerm)))
+  }, [groupByIdentity, identityStakers, listedStakers, searchTerm])
+
+  const totalPages = Math.ceil((groupByIdentity ? filteredGroups.length : filteredStakers.length) / ITEMS_PER_PAGE)
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE
   const paginatedStakers = filteredStakers.slice(startIndex, startIndex + ITEMS_PER_PAGE)
+  const paginatedGroups = filteredGroups.slice(startIndex, startIndex + ITEMS_PER_PAGE)
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page)
@@ -48,18 +86,33 @@ const Leaderboard: React.FC = () => {
     setCurrentPage(1) // Reset to first page when searching
   }
 
+  const handleToggleFullList = () => {
+    setShowFullList(!showFullList)
+    setCurrentPage(1)
+  }
+
+  const handleToggleGroupByIdentity = () => {
+    setGroupByIdentity(!groupByIdentity)
+    setCurrentPage(1)
+  }
+
   const handleManualRefresh = async () => {
     setIsManualRefreshing(true)
     try {
-      console.log('🔄 Manual refresh initiated by user')
-      const freshData = await forceRefreshStakers()
-      
-      // Update the query cache with fresh data
-      queryClient.setQueryData(['topStakers'], freshData)
+      // Staking data is refreshed server-side on a schedule - this only re-reads it
+      console.log('🔄 Reloading leaderboard data')
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['topStakers'] }),
+        queryClient.invalidateQueries({ queryKey: ['droppedStakers'] }),
+        queryClient.invalidateQueries({ queryKey: ['fullStakerList'] }),
+        queryClient.invalidateQueries({ queryKey: ['identityStakers'] }),
+        queryClient.invalidateQueries({ queryKey: ['holderCount'] }),
+        queryClient.invalidateQueries({ queryKey: ['refreshStatus'] })
+      ])
       
-      console.log(`✅ Manual refresh complete - ${freshData.length} stakers updated`)
+      console.log('✅ Leaderboard data reloaded')
     } catch (error) {
-      console.error('❌ Manual refresh failed:', error)
+      console.error('❌ Reload failed:', error)
     } finally {
       setIsManualRefreshing(false)
     }
@@ -77,28 +130,6 @@ const Leaderboard: React.FC = () => {
     return stakers.filter(staker => staker.hasVerifiedIdentity).length
   }, [stakers])
 
-  // Background enrichment effect - runs after initial load
-  useEffect(() => {
-    if (stakers && stakers.length > 0) {
-      // Start background enrichment 3 seconds after load
-      const timer = setTimeout(async () => {
-        try {
-          console.log('🚀 Starting background enrichment...')
-          await backgroundEnrichStakers(20) // Enrich 20 stakers at a time
-          
-          // Refresh the query to show new identities
-          setTimeout(() => {
-            refetch()
-          }, 1000)
-        } catch (error) {
-          console.warn('Background enrichment failed:', error)
-        }
-      }, 3000)
-
-      return () => clearTimeout(timer)
-    }
-  }, [stakers, refetch])
-
   if (isLoading) {
     return <LoadingSpinner />
   }
@@ -150,10 +181,7 @@ const Leaderboard: React.FC = () => {
             Community Leaderboard - Top 1000 $TIPN Stakers on Base
           </p>
           <div className="flex flex-col gap-2 md:flex-row items-center justify-center md:gap-3 lg:gap-6 text-xs md:text-sm lg:text-base px-4">
-            <div className="flex items-center gap-2 bg-slate-800/50 backdrop-blur-sm rounded-full px-3 py-1.5 md:px-4 md:py-2 border border-slate-600/50">
-              <span className="w-1.5 h-1.5 md:w-2 md:h-2 bg-green-400 rounded-full animate-pulse"></span>
-              <span className="text-green-300 font-medium">Live Data</span>
-            </div>
+            <FreshnessBadge />
             <div className="text-blue-200 bg-blue-900/30 border border-blue-400/30 rounded-full px-3 py-1.5 md:px-4 md:py-2 backdrop-blur-sm text-center">
               Community Project - Not Official TIPNEARN Team
             </div>
@@ -166,6 +194,7 @@ const Leaderboard: React.FC = () => {
           totalStakers={stakers.length}
           totalStaked={totalStaked}
           network="Base"
+          totalHolders={holderCount}
         />
 
         {/* Action Buttons */}
@@ -176,17 +205,37 @@ const Leaderboard: React.FC = () => {
             className="flex items-center gap-2 md:gap-3 px-4 md:px-6 lg:px-8 py-2.5 md:py-3 lg:py-4 bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg md:rounded-xl lg:rounded-2xl transition-all duration-200 shadow-xl hover:shadow-2xl transform hover:-translate-y-0.5 text-sm md:text-base lg:text-lg w-full max-w-xs sm:w-auto"
           >
             <RefreshCw className={`w-4 h-4 md:w-5 md:h-5 lg:w-6 lg:h-6 ${isManualRefreshing ? 'animate-spin' : ''}`} />
-            <span className="truncate">{isManualRefreshing ? 'Refreshing...' : 'Refresh Data'}</span>
+            <span className="truncate">{isManualRefreshing ? 'Reloading...' : 'Reload Data'}</span>
           </button>
           
-          <CSVExport stakers={stakers} />
+          <button
+            type="button"
+            onClick={handleToggleFullList}
+            disabled={isLoadingFullList}
+            className="px-4 md:px-6 py-2.5 md:py-3 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white font-medium rounded-lg md:rounded-xl transition-colors duration-200 text-sm md:text-base w-full max-w-xs sm:w-auto"
+          >
+            {isLoadingFullList ? 'Loading full list...' : showFullList ? 'Show Top 1000' : 'Show Full List'}
+          </button>
+
+          <button
+            type="button"
+            onClick={handleToggleGroupByIdentity}
+            className={`px-4 md:px-6 py-2.5 md:py-3 font-medium rounded-lg md:rounded-xl transition-colors duration-200 text-sm md:text-base w-full max-w-xs sm:w-auto ${
+              groupByIdentity ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-slate-700 hover:bg-slate-600 text-white'
+            }`}
+            title="Sum stakes across all verified wallets of each Farcaster account"
+          >
+            {groupByIdentity ? 'Grouped by Identity' : 'Group by Identity'}
+          </button>
+
+          <CSVExport stakers={listedStakers || stakers} />
         </div>
 
         {/* Status Info */}
         <div className="mb-4 md:mb-6 text-center text-xs md:text-sm lg:text-base text-slate-400 space-y-2 px-4">
           <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg md:rounded-xl px-3 md:px-4 py-2 md:py-3 border border-slate-700/50">
             <div className="leading-relaxed">
-              Staking data cached for 1 hour. Identity data includes Farcaster, ENS, and Basename resolution.
+              Staking data refreshed hourly on the server. Identity data includes Farcaster, ENS, and Basename resolution.
             </div>
           </div>
           <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg md:rounded-xl px-3 md:px-4 py-2 md:py-3 border border-slate-700/50">
@@ -209,7 +258,13 @@ const Leaderboard: React.FC = () => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-700/50">
-                {paginatedStakers.map((staker, index) => {
+                {groupByIdentity ? paginatedGroups.map(group => (
+                  <IdentityGroupRow
+                    key={group.key}
+                    group={group}
+                    rank={group.staker.rank}
+                  />
+                )) : paginatedStakers.map((staker, index) => {
                   const actualRank = startIndex + index + 1
                   
                   return (
@@ -231,6 +286,8 @@ const Leaderboard: React.FC = () => {
           onPageChange={handlePageChange}
         />
 
+        <DroppedOutList stakers={droppedStakers || []} />
+
         <Footer />
       </div>
     </div>
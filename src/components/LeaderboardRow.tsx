@@ -1,10 +1,16 @@
 import React from 'react'
-import { ExternalLink } from 'lucide-react'
+import { Link, useNavigate } from 'react-router-dom'
+import { ExternalLink, ChevronUp, ChevronDown, Wallet } from 'lucide-react'
 import { formatTokenAmount, getBaseScanUrl } from '@/utils/format'
 import { getOptimizedPfpUrl } from '@/utils/farcaster'
+import { useMiniAppActions } from '@/hooks/useMiniAppActions'
 import type { LeaderboardRowProps } from '@/types'
 
-const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ staker, rank }) => {
+const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ staker, rank, walletCount, isExpanded, onToggleExpand }) => {
+  const navigate = useNavigate()
+  const { isMiniApp, viewProfile } = useMiniAppActions()
+  const profilePath = `/staker/${staker.address}`
+
   const getRankStyle = (rank: number): string => {
     if (rank === 1) return 'bg-gradient-to-r from-yellow-400/20 to-yellow-600/20 border border-yellow-400/30 text-white'
     if (rank === 2) return 'bg-gradient-to-r from-gray-300/20 to-gray-500/20 border border-gray-400/30 text-white'
@@ -12,6 +18,19 @@ const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ staker, rank }) => {
     return 'bg-slate-800/30 hover:bg-slate-700/50 transition-all duration-200 border border-transparent'
   }
 
+  // Open the in-app profile when the row is clicked, but let inner links and buttons keep their own behaviour
+  const handleRowClick = (e: React.MouseEvent<HTMLTableRowElement>) => {
+    if ((e.target as HTMLElement).closest('a, button')) return
+    navigate(profilePath)
+  }
+
+  // Inside a Farcaster client, open the profile natively rather than the farcaster.xyz page
+  const handleProfileClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (!isMiniApp || !staker.profileUrl) return
+    e.preventDefault()
+    viewProfile(staker.farcasterFid, staker.profileUrl)
+  }
+
   const getRankDisplay = (rank: number): React.ReactNode => {
     if (rank === 1) return <span className="text-2xl">🥇</span>
     if (rank === 2) return <span className="text-2xl">🥈</span>
@@ -19,6 +38,35 @@ const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ staker, rank }) => {
     return <span className="text-lg font-bold">#{rank}</span>
   }
 
+  const getMovementDisplay = (delta: number | undefined): React.ReactNode => {
+    if (delta === undefined) return null
+    if (delta > 0) {
+      return (
+        <span className="inline-flex items-center text-green-400">
+          <ChevronUp className="w-3 h-3" />
+          {delta}
+        </span>
+      )
+    }
+    if (delta < 0) {
+      return (
+        <span className="inline-flex items-center text-red-400">
+          <ChevronDown className="w-3 h-3" />
+          {Math.abs(delta)}
+        </span>
+      )
+    }
+    return <span className="text-slate-500">–</span>
+  }
+
+  const getMovementTooltip = (): string => {
+    const parts: string[] = []
+    if (staker.previousRank !== undefined) parts.push(`Previous snapshot: #${staker.previousRank}`)
+    if (staker.rankDelta24h !== undefined) parts.push(`24h: ${staker.rankDelta24h > 0 ? '+' : ''}${staker.rankDelta24h}`)
+    if (staker.rankDelta7d !== undefined) parts.push(`7d: ${staker.rankDelta7d > 0 ? '+' : ''}${staker.rankDelta7d}`)
+    return parts.join(' • ')
+  }
+
   const getIdentityBadge = () => {
     if (!staker.hasVerifiedIdentity) return null
     
@@ -49,12 +97,31 @@ const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ staker, rank }) => {
   const badge = getIdentityBadge()
 
   return (
-    <tr className={getRankStyle(rank)}>
+    <tr className={`${getRankStyle(rank)} cursor-pointer`} onClick={handleRowClick}>
       {/* Rank Column */}
       <td className="px-2 md:px-4 lg:px-8 py-3 md:py-4 lg:py-6 text-center font-bold">
         <div className="flex items-center justify-center">
           {getRankDisplay(rank)}
         </div>
+        
+        {/* Rank movement since previous snapshot / 24h / 7d */}
+        <div className="flex flex-col items-center text-xs font-medium mt-0.5" title={getMovementTooltip()}>
+          {staker.isNew ? (
+            <span className="px-1.5 py-0.5 rounded bg-purple-600/40 text-purple-200 text-[10px] tracking-wide">NEW</span>
+          ) : (
+            getMovementDisplay(staker.rankDelta)
+          )}
+          {(staker.rankDelta24h !== undefined || staker.rankDelta7d !== undefined) && (
+            <div className="hidden md:flex items-center gap-1.5 text-[10px] text-slate-500">
+              {staker.rankDelta24h !== undefined && (
+                <span className="inline-flex items-center gap-0.5">24h {getMovementDisplay(staker.rankDelta24h)}</span>
+              )}
+              {staker.rankDelta7d !== undefined && (
+                <span className="inline-flex items-center gap-0.5">7d {getMovementDisplay(staker.rankDelta7d)}</span>
+              )}
+            </div>
+          )}
+        </div>
       </td>
       
       {/* User Column */}
@@ -98,20 +165,24 @@ const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ staker, rank }) => {
               )}
 
               {/* Display Name */}
-              <div className="flex-1 min-w-0">
-                {staker.profileUrl ? (
+              <div className="flex-1 min-w-0 flex items-center gap-1">
+                <Link
+                  to={profilePath}
+                  className="font-semibold hover:text-purple-400 transition-colors duration-200 truncate block text-sm md:text-base"
+                >
+                  {staker.displayName}
+                </Link>
+                {staker.profileUrl && (
                   <a
                     href={staker.profileUrl}
                     target="_blank"
                     rel="noopener noreferrer"
-                    className="font-semibold hover:text-purple-400 transition-colors duration-200 truncate block text-sm md:text-base"
+                    onClick={handleProfileClick}
+                    className="text-slate-500 hover:text-purple-400 transition-colors flex-shrink-0"
+                    title={`Open ${staker.displayName} on Farcaster`}
                   >
-                    {staker.displayName}
+                    <ExternalLink className="w-3 h-3" />
                   </a>
-                ) : (
-                  <span className="font-semibold truncate block text-sm md:text-base">
-                    {staker.displayName}
-                  </span>
                 )}
               </div>
             </div>
@@ -137,6 +208,20 @@ const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ staker, rank }) => {
                 <ExternalLink className="w-2.5 h-2.5 md:w-3 md:h-3" />
               </a>
               
+              {/* Wallet breakdown toggle (group-by-identity view) */}
+              {walletCount !== undefined && walletCount > 1 && onToggleExpand && (
+                <button
+                  type="button"
+                  onClick={onToggleExpand}
+                  className="ml-1 md:ml-2 inline-flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200 bg-purple-900/30 rounded px-1.5 py-0.5"
+                  title={isExpanded ? 'Hide wallet breakdown' : 'Show wallet breakdown'}
+                >
+                  <Wallet className="w-3 h-3" />
+                  {walletCount} wallets
+                  {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                </button>
+              )}
+              
               {/* Multiple identity indicators */}
               {staker.hasVerifiedIdentity && (
                 <div className="flex items-center gap-1 ml-1 md:ml-2">
@@ -0,0 +1,115 @@
+// src/components/NotificationSettingsPanel.tsx
+import React, { useState } from 'react'
+import { Bell, BellOff } from 'lucide-react'
+import { useNotificationSettings } from '@/hooks/useNotificationSettings'
+import { useMiniAppActions } from '@/hooks/useMiniAppActions'
+import { NOTIFICATION_LIMITS, type NotificationPreferences } from '@/core/notifications'
+
+// Webhook events reach the server shortly after the client confirms, so re-check after a pause
+const SUBSCRIPTION_RECHECK_MS = 3000
+
+const TOGGLES: Array<{ key: 'top100' | 'top1000' | 'overtaken' | 'rankMoves'; label: string }> = [
+  { key: 'top1000', label: 'Entering or leaving the top 1000' },
+  { key: 'top100', label: 'Entering or leaving the top 100' },
+  { key: 'overtaken', label: 'Someone overtakes me' },
+  { key: 'rankMoves', label: 'Big rank moves' }
+]
+
+const NotificationSettingsPanel: React.FC = () => {
+  const { isMiniApp, addMiniApp } = useMiniAppActions()
+  const [isOpen, setIsOpen] = useState(false)
+  const { data: settings, isLoading, isError, refetch, save, isSaving } = useNotificationSettings(isMiniApp && isOpen)
+
+  if (!isMiniApp) return null
+
+  const enableNotifications = async () => {
+    if (await addMiniApp()) {
+      setTimeout(() => refetch(), SUBSCRIPTION_RECHECK_MS)
+    }
+  }
+
+  const saveNumber = (key: 'moveThreshold' | 'maxPerDay', value: string) => {
+    const parsed = Number(value)
+    if (settings && Number.isFinite(parsed) && parsed !== settings.preferences[key]) {
+      save({ [key]: parsed } as Partial<NotificationPreferences>)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1.5 rounded-lg text-purple-300 hover:text-white hover:bg-purple-800/50 transition-colors"
+        title="Rank notifications"
+      >
+        {settings?.subscribed === false ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 z-20 bg-slate-800 border border-slate-700 rounded-xl p-4 shadow-xl text-sm">
+          <p className="font-semibold text-white mb-3">Rank notifications</p>
+
+          {isLoading ? (
+            <p className="text-slate-400">Loading...</p>
+          ) : isError || !settings ? (
+            <p className="text-red-400">Could not load your settings.</p>
+          ) : (
+            <div className="space-y-3">
+              {!settings.subscribed && (
+                <button
+                  type="button"
+                  onClick={enableNotifications}
+                  className="w-full bg-purple-600 hover:bg-purple-500 text-white rounded-lg px-3 py-2 font-medium"
+                >
+                  Enable notifications
+                </button>
+              )}
+
+              {TOGGLES.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={settings.preferences[key]}
+                    disabled={isSaving}
+                    onChange={(e) => save({ [key]: e.target.checked })}
+                    className="accent-purple-500"
+                  />
+                  {label}
+                </label>
+              ))}
+
+              <label className="flex items-center justify-between gap-2 text-slate-300">
+                Big move = at least
+                <input
+                  type="number"
+                  min={NOTIFICATION_LIMITS.MOVE_THRESHOLD.min}
+                  max={NOTIFICATION_LIMITS.MOVE_THRESHOLD.max}
+                  defaultValue={settings.preferences.moveThreshold}
+                  disabled={!settings.preferences.rankMoves || isSaving}
+                  onBlur={(e) => saveNumber('moveThreshold', e.target.value)}
+                  className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right"
+                />
+              </label>
+
+              <label className="flex items-center justify-between gap-2 text-slate-300">
+                Max per day
+                <input
+                  type="number"
+                  min={NOTIFICATION_LIMITS.MAX_PER_DAY.min}
+                  max={NOTIFICATION_LIMITS.MAX_PER_DAY.max}
+                  defaultValue={settings.preferences.maxPerDay}
+                  disabled={isSaving}
+                  onBlur={(e) => saveNumber('maxPerDay', e.target.value)}
+                  className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right"
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NotificationSettingsPanel
@@ -1,24 +1,15 @@
 import React, { useState, useEffect } from 'react'
 import { Search, User, MessageCircle } from 'lucide-react'
-import { createPublicClient, http, isAddress } from 'viem'
-import { mainnet, base } from 'viem/chains'
+import { isAddress } from 'viem'
+import { resilientFetch } from '@/lib/resilience'
+import { rateLimiter } from '@/lib/rateLimiter'
+import { resolveNameToAddress } from '@/utils/ens'
 import type { SearchBarProps } from '@/types'
 
 // Neynar API for Farcaster username resolution
 const NEYNAR_API_KEY = import.meta.env?.VITE_NEYNAR_API_KEY
 const NEYNAR_BASE_URL = 'https://api.neynar.com/v2'
 
-// Create clients for ENS resolution
-const mainnetClient = createPublicClient({
-  chain: mainnet,
-  transport: http('https://eth.llamarpc.com')
-})
-
-const baseClient = createPublicClient({
-  chain: base,
-  transport: http('https://mainnet.base.org')
-})
-
 interface SearchHint {
   type: 'farcaster' | 'ens' | 'basename' | 'address' | 'error'
   message: string
@@ -65,7 +56,9 @@ const SearchBar: React.FC<SearchBarProps> = ({ searchTerm, onSearchChange }) =>
           // Remove @ if user typed it
           const username = cleanTerm.startsWith('@') ? cleanTerm.slice(1) : cleanTerm
           
-          const response = await fetch(
+          await rateLimiter.acquire('neynar')
+          const response = await resilientFetch(
+            'neynar',
             `${NEYNAR_BASE_URL}/farcaster/user/search?q=${encodeURIComponent(username)}&limit=5`,
             {
               headers: {
@@ -107,41 +100,15 @@ const SearchBar: React.FC<SearchBarProps> = ({ searchTerm, onSearchChange }) =>
         }
       }
 
-      // 2. Try ENS resolution if Farcaster didn't work
+      // 2. Try ENS / Basename resolution if Farcaster didn't work
       if (!resolvedAddress && cleanTerm.includes('.')) {
-        // Try mainnet ENS first (.eth domains)
-        if (cleanTerm.endsWith('.eth') && !cleanTerm.endsWith('.base.eth')) {
-          try {
-            resolvedAddress = await mainnetClient.getEnsAddress({
-              name: cleanTerm as `${string}.eth`,
-            })
-            if (resolvedAddress) {
-              hint = {
-                type: 'ens',
-                message: `ENS: ${cleanTerm}`,
-                resolvedAddress
-              }
-            }
-          } catch (error) {
-            console.warn('Mainnet ENS resolution failed:', error)
-          }
-        }
-
-        // Try Base ENS (basename) - including .base.eth domains
-        if (!resolvedAddress) {
-          try {
-            resolvedAddress = await baseClient.getEnsAddress({
-              name: cleanTerm,
-            })
-            if (resolvedAddress) {
-              hint = {
-                type: 'basename',
-                message: `Basename: ${cleanTerm}`,
-                resolvedAddress
-              }
-            }
-          } catch (error) {
-            console.warn('Base ENS resolution failed:', error)
+        const resolved = await resolveNameToAddress(cleanTerm)
+        if (resolved.address && resolved.type) {
+          resolvedAddress = resolved.address
+          hint = {
+            type: resolved.type,
+            message: `${resolved.type === 'ens' ? 'ENS' : 'Basename'}: ${cleanTerm}`,
+            resolvedAddress
           }
         }
       }
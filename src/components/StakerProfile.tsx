@@ -0,0 +1,225 @@
+// src/components/StakerProfile.tsx
+import React, { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, ExternalLink, Share2 } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { useStakerProfile } from '@/hooks/useStakerProfile'
+import { formatAddress, formatTokenAmount, getBaseScanUrl } from '@/utils/format'
+import { getFarcasterProfileUrl, getOptimizedPfpUrl } from '@/utils/farcaster'
+import { useMiniAppActions } from '@/hooks/useMiniAppActions'
+import { getStakerPageUrl } from '@/core/miniApp'
+import HistoryChart from './HistoryChart'
+import LoadingSpinner from './LoadingSpinner'
+import ErrorState from './ErrorState'
+
+const StakerProfile: React.FC = () => {
+  const { address: query } = useParams<{ address: string }>()
+  const [metric, setMetric] = useState<'rank' | 'amount'>('rank')
+  const { data: profile, isLoading, isError, refetch } = useStakerProfile(query)
+  const { isMiniApp, composeCast, viewProfile } = useMiniAppActions()
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  if (isError) {
+    return <ErrorState onRetry={refetch} />
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900/20 to-slate-900 text-white">
+        <div className="container mx-auto px-4 py-12 max-w-3xl text-center">
+          <p className="text-xl text-slate-300 mb-6">Could not resolve "{query}" to an address</p>
+          <Link to="/" className="text-purple-400 hover:text-purple-300 underline">
+            Back to leaderboard
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const { address, staker, fullListRank, identity, history, firstSeen } = profile
+  const latestPoint = history[history.length - 1]
+  const previousPoint = history[history.length - 2]
+  const currentRank = staker?.rank ?? fullListRank?.rank
+  const currentAmount = staker?.amount ?? fullListRank?.amount ?? latestPoint?.amount
+  const rankChange = staker && previousPoint ? previousPoint.rank - staker.rank : undefined
+  const avatar = identity.displayAvatar || staker?.farcasterPfpUrl
+
+  // The staker page embeds as this staker's rank card (netlify/functions/staker-embed)
+  const shareRank = currentRank && currentAmount !== undefined
+    ? () => composeCast(
+        `${identity.displayName} is rank #${currentRank.toLocaleString()} on the Top Tipners leaderboard with ${formatTokenAmount(currentAmount)} TIPN staked 🔥`,
+        [getStakerPageUrl(address)]
+      )
+    : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900/20 to-slate-900 text-white">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 lg:py-12 max-w-4xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-slate-400 hover:text-white transition-colors mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to leaderboard
+        </Link>
+
+        {/* Identity header */}
+        <div className="flex items-center gap-4 md:gap-6 mb-6 md:mb-10">
+          {avatar ? (
+            <img
+              src={getOptimizedPfpUrl(avatar, 96)}
+              alt={`${identity.displayName} avatar`}
+              className="w-16 h-16 md:w-24 md:h-24 rounded-full border-2 border-slate-600 object-cover"
+            />
+          ) : (
+            <div className="w-16 h-16 md:w-24 md:h-24 rounded-full bg-slate-600 flex items-center justify-center">
+              <span className="text-2xl md:text-4xl font-semibold text-slate-300">
+                {identity.displayName[0]?.toUpperCase() || '?'}
+              </span>
+            </div>
+          )}
+          <div className="min-w-0">
+            <h1 className="text-2xl md:text-4xl font-bold truncate">{identity.displayName}</h1>
+            <a
+              href={getBaseScanUrl(address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs md:text-sm text-slate-400 hover:text-slate-200 font-mono inline-flex items-center gap-1"
+            >
+              {formatAddress(address)}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+            {shareRank && (
+              <button
+                type="button"
+                onClick={shareRank}
+                className="ml-3 text-xs md:text-sm text-purple-400 hover:text-purple-300 inline-flex items-center gap-1"
+              >
+                <Share2 className="w-3 h-3" />
+                Share rank
+              </button>
+            )}
+            {identity.farcaster?.bio && (
+              <p className="text-sm text-slate-300 mt-2 line-clamp-2">{identity.farcaster.bio}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-6 md:mb-10">
+          <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50 text-center">
+            <div className="text-xl md:text-2xl font-bold">{currentRank ? `#${currentRank.toLocaleString()}` : '—'}</div>
+            <div className="text-xs md:text-sm text-slate-400">
+              {staker ? 'Current rank' : fullListRank ? 'Outside top 1000' : 'Not staking'}
+            </div>
+          </div>
+          <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50 text-center">
+            <div className="text-xl md:text-2xl font-bold text-purple-400">
+              {currentAmount !== undefined ? formatTokenAmount(currentAmount) : '—'}
+            </div>
+            <div className="text-xs md:text-sm text-slate-400">TIPN staked</div>
+          </div>
+          <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50 text-center">
+            <div className={`text-xl md:text-2xl font-bold ${rankChange && rankChange > 0 ? 'text-green-400' : rankChange && rankChange < 0 ? 'text-red-400' : ''}`}>
+              {rankChange === undefined ? '—' : rankChange > 0 ? `+${rankChange}` : rankChange}
+            </div>
+            <div className="text-xs md:text-sm text-slate-400">Since last snapshot</div>
+          </div>
+          <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50 text-center">
+            <div className="text-xl md:text-2xl font-bold" title={firstSeen ? format(firstSeen, 'PPpp') : undefined}>
+              {firstSeen ? format(firstSeen, 'MMM d, yyyy') : '—'}
+            </div>
+            <div className="text-xs md:text-sm text-slate-400">
+              {firstSeen ? `First seen ${formatDistanceToNow(firstSeen, { addSuffix: true })}` : 'Never ranked'}
+            </div>
+          </div>
+        </div>
+
+        {/* History chart */}
+        <div className="bg-slate-800/50 rounded-xl md:rounded-2xl p-4 md:p-6 border border-slate-700/50 mb-6 md:mb-10">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">History</h2>
+            <div className="flex gap-2">
+              {(['rank', 'amount'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMetric(option)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors duration-200 ${
+                    metric === option ? 'bg-purple-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+                >
+                  {option === 'rank' ? 'Rank' : 'Amount'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <HistoryChart points={history} metric={metric} />
+        </div>
+
+        {/* Linked identities */}
+        <div className="bg-slate-800/50 rounded-xl md:rounded-2xl border border-slate-700/50 divide-y divide-slate-700/50">
+          <div className="flex items-center justify-between px-4 md:px-6 py-3">
+            <span className="text-slate-400 text-sm">🟣 Farcaster</span>
+            {identity.farcaster ? (
+              <a
+                href={getFarcasterProfileUrl(identity.farcaster.username)}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => {
+                  // Native profile view inside a Farcaster client
+                  if (!isMiniApp || !identity.farcaster) return
+                  e.preventDefault()
+                  viewProfile(identity.farcaster.fid, getFarcasterProfileUrl(identity.farcaster.username))
+                }}
+                className="text-sm hover:text-purple-400 inline-flex items-center gap-1"
+              >
+                @{identity.farcaster.username}
+                <span className="text-slate-500">
+                  · FID {identity.farcaster.fid} · {identity.farcaster.followerCount.toLocaleString()} followers
+                </span>
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            ) : (
+              <span className="text-sm text-slate-500">None</span>
+            )}
+          </div>
+          <div className="flex items-center justify-between px-4 md:px-6 py-3">
+            <span className="text-slate-400 text-sm">🔵 Basename</span>
+            {identity.basename ? (
+              <a
+                href={`https://www.base.org/name/${identity.basename.replace(/\.base\.eth$/, '')}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm hover:text-blue-400 inline-flex items-center gap-1"
+              >
+                {identity.basename}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            ) : (
+              <span className="text-sm text-slate-500">None</span>
+            )}
+          </div>
+          <div className="flex items-center justify-between px-4 md:px-6 py-3">
+            <span className="text-slate-400 text-sm">🟢 ENS</span>
+            {identity.ens ? (
+              <a
+                href={`https://app.ens.domains/${identity.ens}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm hover:text-green-400 inline-flex items-center gap-1"
+              >
+                {identity.ens}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            ) : (
+              <span className="text-sm text-slate-500">None</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default StakerProfile
@@ -2,7 +2,7 @@ import React from 'react'
 import { formatTokenAmount } from '@/utils/format'
 import type { StatsGridProps } from '@/types'
 
-const StatsGrid: React.FC<StatsGridProps> = ({ totalStakers, totalStaked, network }) => {
+const StatsGrid: React.FC<StatsGridProps> = ({ totalStakers, totalStaked, network, totalHolders }) => {
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4 lg:gap-8 mb-6 md:mb-8 lg:mb-12 px-4 md:px-0">
       <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl md:rounded-2xl lg:rounded-3xl p-4 md:p-6 lg:p-8 text-center shadow-2xl border border-slate-700/50">
@@ -15,6 +15,11 @@ const StatsGrid: React.FC<StatsGridProps> = ({ totalStakers, totalStaked, networ
           </div>
         </div>
         <div className="text-slate-200 text-base md:text-lg lg:text-xl font-medium">Top Stakers</div>
+        {totalHolders !== undefined && (
+          <div className="text-slate-400 text-xs md:text-sm mt-1">
+            of {totalHolders.toLocaleString()} total holders
+          </div>
+        )}
       </div>
       
       <div className="bg-slate-800/50 backdrop-blur-sm rounded-xl md:rounded-2xl lg:rounded-3xl p-4 md:p-6 lg:p-8 text-center shadow-2xl border border-slate-700/50">
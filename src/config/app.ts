@@ -0,0 +1,9 @@
+// src/config/app.ts
+// App settings read from the Vite environment. Not for src/core: the functions can't read
+// import.meta.env (netlify/functions/_shared/rpc.ts mirrors BASE_RPC_URL from process.env).
+
+const ANKR_API_KEY = import.meta.env.VITE_ANKR_API_KEY
+
+// RPC endpoint - override with VITE_BASE_RPC_URL (e.g. http://127.0.0.1:8545 for a local anvil fork)
+export const BASE_RPC_URL = import.meta.env.VITE_BASE_RPC_URL
+  || (ANKR_API_KEY ? `https://rpc.ankr.com/base/${ANKR_API_KEY}` : 'https://mainnet.base.org')
@@ -1,5 +1,8 @@
 import { Chain } from 'viem'
 
+// Production origin: share links, card and embed URLs, wallet metadata
+export const APP_URL = 'https://top-tipners.epicdylan.com'
+
 export const BASE_MAINNET: Chain = {
   id: 8453,
   name: 'Base',
@@ -52,4 +55,4 @@ export const TIPN_STAKING_ABI = [
   {"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
   {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transfer","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
   {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transferFrom","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"}
-] as const
\ No newline at end of file
+] as const
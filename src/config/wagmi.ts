@@ -0,0 +1,46 @@
+// src/config/wagmi.ts
+import { createConfig, http } from 'wagmi'
+import { injected, walletConnect } from 'wagmi/connectors'
+import { farcasterFrame } from '@farcaster/frame-wagmi-connector'
+import { APP_URL, BASE_MAINNET } from '@/config/blockchain'
+import { BASE_RPC_URL } from '@/config/app'
+
+// WalletConnect is only offered when a project id is configured
+const WALLETCONNECT_PROJECT_ID = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID
+
+// Connector ids, used to pick a connector from the UI
+export const WALLET_CONNECTORS = {
+  FARCASTER: 'farcaster',
+  INJECTED: 'injected',
+  WALLETCONNECT: 'walletConnect',
+} as const
+
+// Base only: the Farcaster client's wallet inside the mini app, browser extension and
+// WalletConnect wallets on the web
+export const wagmiConfig = createConfig({
+  chains: [BASE_MAINNET],
+  transports: {
+    [BASE_MAINNET.id]: http(BASE_RPC_URL),
+  },
+  connectors: [
+    farcasterFrame(),
+    injected(),
+    ...(WALLETCONNECT_PROJECT_ID
+      ? [walletConnect({
+          projectId: WALLETCONNECT_PROJECT_ID,
+          metadata: {
+            name: 'Top Tipners',
+            description: 'Community leaderboard for top TIPN stakers on Base',
+            url: APP_URL,
+            icons: [`${APP_URL}/tipn-icon.png`],
+          },
+        })]
+      : []),
+  ],
+})
+
+declare module 'wagmi' {
+  interface Register {
+    config: typeof wagmiConfig
+  }
+}
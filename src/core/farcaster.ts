@@ -0,0 +1,96 @@
+// src/core/farcaster.ts
+// Neynar bulk-by-address lookups shared by the app (src/utils/farcaster.ts) and the
+// enrichment function. Isomorphic: the API key and fetch implementation are passed in.
+
+export const NEYNAR_API_URL = 'https://api.neynar.com/v2'
+
+// Maximum number of addresses Neynar accepts in one bulk-by-address request
+export const NEYNAR_BULK_ADDRESS_LIMIT = 350
+
+// Subset of the Neynar user object we read
+export interface NeynarUserData {
+  fid: number
+  username: string
+  display_name?: string
+  pfp_url?: string
+  profile?: { bio?: { text?: string } }
+  follower_count?: number
+  following_count?: number
+  verified_addresses?: { eth_addresses?: string[] }
+}
+
+export interface FarcasterProfile {
+  fid: number
+  username: string
+  displayName: string
+  pfpUrl: string
+  bio: string
+  followerCount: number
+  followingCount: number
+  verifiedAddresses: string[]
+}
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>
+
+export function toFarcasterProfile(userData: NeynarUserData): FarcasterProfile {
+  return {
+    fid: userData.fid,
+    username: userData.username,
+    displayName: userData.display_name || userData.username,
+    pfpUrl: userData.pfp_url || '',
+    bio: userData.profile?.bio?.text || '',
+    followerCount: userData.follower_count || 0,
+    followingCount: userData.following_count || 0,
+    verifiedAddresses: userData.verified_addresses?.eth_addresses || []
+  }
+}
+
+// Split addresses into groups that fit in one bulk-by-address request
+export function chunkForBulkLookup(addresses: string[], size: number = NEYNAR_BULK_ADDRESS_LIMIT): string[][] {
+  const chunks: string[][] = []
+  for (let i = 0; i < addresses.length; i += size) {
+    chunks.push(addresses.slice(i, i + size))
+  }
+  return chunks
+}
+
+// Look up the Farcaster account (first/primary user) verified for each address in a single
+// request. Keys are lowercased; addresses without an account map to null. Throws if Neynar fails.
+export async function fetchFarcasterUsersByAddress(
+  addresses: string[],
+  apiKey: string,
+  fetchImpl: FetchLike = fetch
+): Promise<Map<string, FarcasterProfile | null>> {
+  if (addresses.length > NEYNAR_BULK_ADDRESS_LIMIT) {
+    throw new Error(`bulk-by-address accepts at most ${NEYNAR_BULK_ADDRESS_LIMIT} addresses (got ${addresses.length})`)
+  }
+
+  const normalized = [...new Set(addresses.map(address => address.toLowerCase()))]
+  const results = new Map<string, FarcasterProfile | null>(normalized.map(address => [address, null]))
+  if (normalized.length === 0) return results
+
+  const response = await fetchImpl(
+    `${NEYNAR_API_URL}/farcaster/user/bulk-by-address?addresses=${normalized.join(',')}`,
+    {
+      headers: {
+        'accept': 'application/json',
+        'api_key': apiKey,
+      },
+    }
+  )
+
+  // Neynar answers 404 when none of the addresses has a user
+  if (response.status === 404) return results
+  if (!response.ok) {
+    throw new Error(`Neynar API error: ${response.status}`)
+  }
+
+  const data = (await response.json()) as Record<string, NeynarUserData[] | undefined>
+  for (const [address, users] of Object.entries(data)) {
+    if (users && users.length > 0) {
+      results.set(address.toLowerCase(), toFarcasterProfile(users[0]))
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,125 @@
+// src/core/identity.ts
+// Identity resolution pipeline shared by the Vite app and the Netlify functions.
+// Isomorphic like ./names: callers pass in their own lookups and priority config.
+
+export type IdentitySource = 'farcaster' | 'basename' | 'ens'
+export type IdentityType = IdentitySource | 'address'
+
+// Which identity is displayed when an address has several
+export const DEFAULT_IDENTITY_PRIORITY: IdentitySource[] = ['farcaster', 'basename', 'ens']
+
+// Farcaster web client used for profile and compose links
+export const FARCASTER_WEB_URL = 'https://farcaster.xyz'
+
+export interface IdentityFarcasterProfile {
+  fid: number
+  username: string
+  displayName: string
+  pfpUrl: string
+}
+
+export interface IdentityLookups<F extends IdentityFarcasterProfile = IdentityFarcasterProfile> {
+  farcaster: F | null
+  ens: string | null
+  basename: string | null
+}
+
+export interface Identity<F extends IdentityFarcasterProfile = IdentityFarcasterProfile> extends IdentityLookups<F> {
+  address: string
+  displayName: string
+  displayAvatar: string | null
+  profileUrl: string | null
+  hasVerifiedIdentity: boolean
+  identityType: IdentityType
+}
+
+// Per-source lookups. Each returns null for "not found" and throws if the lookup failed.
+export interface IdentityResolvers<F extends IdentityFarcasterProfile = IdentityFarcasterProfile> {
+  farcaster: (address: string) => Promise<F | null>
+  ens: (address: string) => Promise<string | null>
+  basename: (address: string) => Promise<string | null>
+}
+
+const IDENTITY_SOURCES: IdentitySource[] = ['farcaster', 'basename', 'ens']
+
+// Parse a priority list such as "farcaster,basename,ens" (VITE_IDENTITY_PRIORITY).
+// Sources left out are still looked up and stored, just never used as the display identity.
+export function parseIdentityPriority(value: string | undefined): IdentitySource[] {
+  if (!value?.trim()) return DEFAULT_IDENTITY_PRIORITY
+
+  const sources = value.split(',').map(source => source.trim().toLowerCase()).filter(Boolean)
+  for (const source of sources) {
+    if (!IDENTITY_SOURCES.includes(source as IdentitySource)) {
+      throw new Error(`Unknown identity source "${source}" (expected ${IDENTITY_SOURCES.join(', ')})`)
+    }
+  }
+  return [...new Set(sources)] as IdentitySource[]
+}
+
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+export function getFarcasterProfileUrl(username: string): string {
+  return `${FARCASTER_WEB_URL}/${username}`
+}
+
+// Cast composer prefilled with text; embed URLs render as previews (e.g. a rank card)
+export function getFarcasterComposeUrl(text: string, embeds: string[] = []): string {
+  const embedParams = embeds.map(url => `&embeds[]=${encodeURIComponent(url)}`).join('')
+  return `${FARCASTER_WEB_URL}/~/compose?text=${encodeURIComponent(text)}${embedParams}`
+}
+
+// Pick the display identity from completed lookups according to `priority`
+export function buildIdentity<F extends IdentityFarcasterProfile>(
+  address: string,
+  lookups: IdentityLookups<F>,
+  priority: IdentitySource[] = DEFAULT_IDENTITY_PRIORITY
+): Identity<F> {
+  const identity: Identity<F> = {
+    address,
+    ...lookups,
+    displayName: shortenAddress(address),
+    displayAvatar: null,
+    profileUrl: null,
+    hasVerifiedIdentity: false,
+    identityType: 'address'
+  }
+
+  for (const source of priority) {
+    if (source === 'farcaster' && lookups.farcaster) {
+      return {
+        ...identity,
+        displayName: lookups.farcaster.displayName || `@${lookups.farcaster.username}`,
+        displayAvatar: lookups.farcaster.pfpUrl || null,
+        profileUrl: getFarcasterProfileUrl(lookups.farcaster.username),
+        hasVerifiedIdentity: true,
+        identityType: 'farcaster'
+      }
+    }
+    if (source === 'basename' && lookups.basename) {
+      return { ...identity, displayName: lookups.basename, hasVerifiedIdentity: true, identityType: 'basename' }
+    }
+    if (source === 'ens' && lookups.ens) {
+      return { ...identity, displayName: lookups.ens, hasVerifiedIdentity: true, identityType: 'ens' }
+    }
+  }
+
+  return identity
+}
+
+// Run every lookup in parallel and build the identity. Throws if any lookup fails,
+// so callers never persist a provider outage as "no identity".
+export async function resolveIdentity<F extends IdentityFarcasterProfile>(
+  address: string,
+  resolvers: IdentityResolvers<F>,
+  priority: IdentitySource[] = DEFAULT_IDENTITY_PRIORITY
+): Promise<Identity<F>> {
+  const [farcaster, basename, ens] = await Promise.all([
+    resolvers.farcaster(address),
+    resolvers.basename(address),
+    resolvers.ens(address)
+  ])
+
+  return buildIdentity(address, { farcaster, basename, ens }, priority)
+}
@@ -0,0 +1,51 @@
+// src/core/miniApp.ts
+// Farcaster Mini App embed metadata: the `fc:frame` meta tag holds a JSON embed whose button
+// launches the app at a given URL. Used for the home page (index.html mirrors it) and the
+// per-staker pages served by netlify/functions/staker-embed.
+
+import { APP_URL } from '../config/blockchain'
+
+// Keep in sync with the `frame` section of public/well-known/farcaster.json
+export const MINI_APP_NAME = 'Top Tipners'
+export const MINI_APP_SPLASH_IMAGE_URL = `${APP_URL}/tipn-splash.png`
+export const MINI_APP_SPLASH_BACKGROUND_COLOR = '#1e293b'
+
+// Clients reject embeds with longer button titles
+const MAX_BUTTON_TITLE_LENGTH = 32
+
+export interface MiniAppEmbed {
+  version: 'next'
+  imageUrl: string // 3:2
+  button: {
+    title: string
+    action: {
+      type: 'launch_frame'
+      name: string
+      url: string
+      splashImageUrl: string
+      splashBackgroundColor: string
+    }
+  }
+}
+
+export function getMiniAppEmbed(imageUrl: string, buttonTitle: string, url: string = APP_URL): MiniAppEmbed {
+  return {
+    version: 'next',
+    imageUrl,
+    button: {
+      title: [...buttonTitle].slice(0, MAX_BUTTON_TITLE_LENGTH).join(''),
+      action: {
+        type: 'launch_frame',
+        name: MINI_APP_NAME,
+        url,
+        splashImageUrl: MINI_APP_SPLASH_IMAGE_URL,
+        splashBackgroundColor: MINI_APP_SPLASH_BACKGROUND_COLOR
+      }
+    }
+  }
+}
+
+// Public page of a staker; casting this URL shows its rank card embed with a launch button
+export function getStakerPageUrl(address: string, baseUrl: string = APP_URL): string {
+  return `${baseUrl}/staker/${address.toLowerCase()}`
+}
@@ -0,0 +1,242 @@
+// src/core/names.ts
+// Forward-verified ENS and Basename resolution. Isomorphic: no import.meta.env or '@/'
+// imports, so both the Vite app (src/utils/ens.ts) and the Netlify functions can use it.
+import { createPublicClient, decodeErrorResult, decodeFunctionResult, encodeFunctionData, http, toHex, type Hex, type PublicClient } from 'viem'
+import { namehash, normalize, packetToBytes } from 'viem/ens'
+import { base, mainnet } from 'viem/chains'
+import { BASE_MAINNET } from '../config/blockchain'
+
+// Basenames L2 resolver on Base - holds both reverse records and forward addr records
+export const BASENAME_L2_RESOLVER = '0xC6d566A56A1aFf6508b41f6c90ff131615583BCD'
+
+// ENSIP-11 reverse namespace for Base: (0x80000000 | 8453) as hex
+const BASE_REVERSE_NAMESPACE = '80002105.reverse'
+
+const L2_RESOLVER_ABI = [
+  {"inputs":[{"internalType":"bytes32","name":"node","type":"bytes32"}],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"node","type":"bytes32"}],"name":"addr","outputs":[{"internalType":"address payable","name":"","type":"address"}],"stateMutability":"view","type":"function"}
+] as const
+
+// Multicall3 has the same deterministic address on Ethereum and Base
+const MULTICALL3_ADDRESS = BASE_MAINNET.contracts?.multicall3?.address ?? base.contracts.multicall3.address
+
+// ENS universal resolver on mainnet: reverse() and resolve() for any resolver in one call
+const ENS_UNIVERSAL_RESOLVER = mainnet.contracts.ensUniversalResolver.address
+
+// Calls per aggregate3 request, keeping each eth_call well under provider gas/size limits
+const MULTICALL_CHUNK_SIZE = 200
+
+const MULTICALL3_ABI = [
+  {"inputs":[{"components":[{"internalType":"address","name":"target","type":"address"},{"internalType":"bool","name":"allowFailure","type":"bool"},{"internalType":"bytes","name":"callData","type":"bytes"}],"internalType":"struct Multicall3.Call3[]","name":"calls","type":"tuple[]"}],"name":"aggregate3","outputs":[{"components":[{"internalType":"bool","name":"success","type":"bool"},{"internalType":"bytes","name":"returnData","type":"bytes"}],"internalType":"struct Multicall3.Result[]","name":"returnData","type":"tuple[]"}],"stateMutability":"view","type":"function"}
+] as const
+
+const UNIVERSAL_RESOLVER_ABI = [
+  {"inputs":[{"internalType":"bytes","name":"lookupAddress","type":"bytes"},{"internalType":"uint256","name":"coinType","type":"uint256"}],"name":"reverse","outputs":[{"internalType":"string","name":"primary","type":"string"},{"internalType":"address","name":"resolver","type":"address"},{"internalType":"address","name":"reverseResolver","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes","name":"name","type":"bytes"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"resolve","outputs":[{"internalType":"bytes","name":"","type":"bytes"},{"internalType":"address","name":"resolver","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"sender","type":"address"},{"internalType":"string[]","name":"urls","type":"string[]"},{"internalType":"bytes","name":"callData","type":"bytes"},{"internalType":"bytes4","name":"callbackFunction","type":"bytes4"},{"internalType":"bytes","name":"extraData","type":"bytes"}],"name":"OffchainLookup","type":"error"}
+] as const
+
+// ENSIP-9 coin type for Ethereum addresses
+const ETH_COIN_TYPE = 60n
+
+export interface NameClients {
+  mainnet: PublicClient
+  base: PublicClient
+}
+
+export function createNameClients(rpcUrls: { mainnet: string; base: string }): NameClients {
+  return {
+    mainnet: createPublicClient({ chain: mainnet, transport: http(rpcUrls.mainnet) }) as PublicClient,
+    base: createPublicClient({ chain: base, transport: http(rpcUrls.base) }) as PublicClient,
+  }
+}
+
+// Normalize a name, or null if it isn't a valid ENS name
+function safeNormalize(name: string): string | null {
+  try {
+    return normalize(name)
+  } catch {
+    return null
+  }
+}
+
+// Reverse-resolve an address to its primary ENS name on mainnet, keeping it only if the
+// name forward-resolves back to the same address. Throws if an RPC call fails.
+export async function reverseResolveEns(client: PublicClient, address: string): Promise<string | null> {
+  const name = await client.getEnsName({ address: address as `0x${string}` })
+  const normalized = name ? safeNormalize(name) : null
+  if (!normalized) return null
+
+  const forward = await client.getEnsAddress({ name: normalized })
+  return forward?.toLowerCase() === address.toLowerCase() ? normalized : null
+}
+
+// Forward-resolve a Basename (e.g. "jesse.base.eth") through the Base L2 resolver
+export async function forwardResolveBasename(client: PublicClient, name: string): Promise<string | null> {
+  const normalized = safeNormalize(name)
+  if (!normalized) return null
+
+  const address = await client.readContract({
+    address: BASENAME_L2_RESOLVER,
+    abi: L2_RESOLVER_ABI,
+    functionName: 'addr',
+    args: [namehash(normalized)],
+  })
+
+  return address && !/^0x0{40}$/i.test(address) ? address.toLowerCase() : null
+}
+
+// Reverse-resolve an address to its primary Basename on Base, keeping it only if the
+// name forward-resolves back to the same address. Throws if an RPC call fails.
+export async function reverseResolveBasename(client: PublicClient, address: string): Promise<string | null> {
+  const reverseNode = namehash(`${address.toLowerCase().slice(2)}.${BASE_REVERSE_NAMESPACE}`)
+
+  const name = await client.readContract({
+    address: BASENAME_L2_RESOLVER,
+    abi: L2_RESOLVER_ABI,
+    functionName: 'name',
+    args: [reverseNode],
+  })
+  if (!name) return null
+
+  const forward = await forwardResolveBasename(client, name)
+  return forward === address.toLowerCase() ? safeNormalize(name) : null
+}
+
+interface MulticallResult {
+  success: boolean
+  returnData: Hex
+}
+
+// Run calls through multicall3's aggregate3 with per-call failure allowed. Reverted calls come
+// back as success: false; an RPC failure throws, so it is never mistaken for "no name".
+async function aggregate(client: PublicClient, calls: Array<{ target: `0x${string}`; callData: Hex }>): Promise<MulticallResult[]> {
+  const results: MulticallResult[] = []
+  for (let i = 0; i < calls.length; i += MULTICALL_CHUNK_SIZE) {
+    const chunk = calls.slice(i, i + MULTICALL_CHUNK_SIZE).map(call => ({ ...call, allowFailure: true }))
+    const chunkResults = await client.readContract({
+      address: MULTICALL3_ADDRESS,
+      abi: MULTICALL3_ABI,
+      functionName: 'aggregate3',
+      args: [chunk],
+    })
+    results.push(...chunkResults)
+  }
+  return results
+}
+
+// True if a reverted universal resolver call needs CCIP-Read (offchain names), which
+// can't run inside a multicall
+function needsOffchainLookup(returnData: Hex): boolean {
+  try {
+    return decodeErrorResult({ abi: UNIVERSAL_RESOLVER_ABI, data: returnData }).errorName === 'OffchainLookup'
+  } catch {
+    return false
+  }
+}
+
+// Forward-verified primary ENS names for many addresses in a few eth_calls: universal resolver
+// reverse() for every address, then resolve(addr) for every name found. Offchain names fall back
+// to reverseResolveEns. Addresses whose lookup failed are left out of the result.
+export async function batchReverseResolveEns(client: PublicClient, addresses: string[]): Promise<Map<string, string | null>> {
+  const lookups = [...new Set(addresses.map(address => address.toLowerCase()))]
+  const results = new Map<string, string | null>()
+  const offchain: string[] = []
+
+  const reverseResults = await aggregate(client, lookups.map(address => ({
+    target: ENS_UNIVERSAL_RESOLVER,
+    callData: encodeFunctionData({
+      abi: UNIVERSAL_RESOLVER_ABI,
+      functionName: 'reverse',
+      args: [address as `0x${string}`, ETH_COIN_TYPE],
+    }),
+  })))
+
+  const candidates: Array<{ address: string; name: string }> = []
+  for (const [index, { success, returnData }] of reverseResults.entries()) {
+    const address = lookups[index]
+    if (!success) {
+      // Reverts mean no primary name (or a mismatch) unless the resolver is offchain
+      if (needsOffchainLookup(returnData)) offchain.push(address)
+      else results.set(address, null)
+      continue
+    }
+
+    const [primary] = decodeFunctionResult({ abi: UNIVERSAL_RESOLVER_ABI, functionName: 'reverse', data: returnData })
+    const normalized = primary ? safeNormalize(primary) : null
+    if (normalized) candidates.push({ address, name: normalized })
+    else results.set(address, null)
+  }
+
+  const forwardResults = await aggregate(client, candidates.map(({ name }) => ({
+    target: ENS_UNIVERSAL_RESOLVER,
+    callData: encodeFunctionData({
+      abi: UNIVERSAL_RESOLVER_ABI,
+      functionName: 'resolve',
+      args: [
+        toHex(packetToBytes(name)),
+        encodeFunctionData({ abi: L2_RESOLVER_ABI, functionName: 'addr', args: [namehash(name)] }),
+      ],
+    }),
+  })))
+
+  for (const [index, { success, returnData }] of forwardResults.entries()) {
+    const { address, name } = candidates[index]
+    if (!success) {
+      if (needsOffchainLookup(returnData)) offchain.push(address)
+      else results.set(address, null)
+      continue
+    }
+
+    const [resolved] = decodeFunctionResult({ abi: UNIVERSAL_RESOLVER_ABI, functionName: 'resolve', data: returnData })
+    const forward = decodeFunctionResult({ abi: L2_RESOLVER_ABI, functionName: 'addr', data: resolved })
+    results.set(address, forward.toLowerCase() === address ? name : null)
+  }
+
+  await Promise.all(offchain.map(async (address) => {
+    try {
+      results.set(address, await reverseResolveEns(client, address))
+    } catch (error) {
+      console.warn(`❌ Offchain ENS lookup failed for ${address}:`, error)
+    }
+  }))
+
+  return results
+}
+
+// Forward-verified primary Basenames for many addresses in a few eth_calls: L2 resolver name()
+// for every reverse node, then addr() for every name found.
+export async function batchReverseResolveBasenames(client: PublicClient, addresses: string[]): Promise<Map<string, string | null>> {
+  const lookups = [...new Set(addresses.map(address => address.toLowerCase()))]
+  const results = new Map<string, string | null>()
+
+  const reverseResults = await aggregate(client, lookups.map(address => ({
+    target: BASENAME_L2_RESOLVER,
+    callData: encodeFunctionData({
+      abi: L2_RESOLVER_ABI,
+      functionName: 'name',
+      args: [namehash(`${address.slice(2)}.${BASE_REVERSE_NAMESPACE}`)],
+    }),
+  })))
+
+  const candidates: Array<{ address: string; name: string }> = []
+  for (const [index, { success, returnData }] of reverseResults.entries()) {
+    const name = success ? decodeFunctionResult({ abi: L2_RESOLVER_ABI, functionName: 'name', data: returnData }) : ''
+    const normalized = name ? safeNormalize(name) : null
+    if (normalized) candidates.push({ address: lookups[index], name: normalized })
+    else results.set(lookups[index], null)
+  }
+
+  const forwardResults = await aggregate(client, candidates.map(({ name }) => ({
+    target: BASENAME_L2_RESOLVER,
+    callData: encodeFunctionData({ abi: L2_RESOLVER_ABI, functionName: 'addr', args: [namehash(name)] }),
+  })))
+
+  for (const [index, { success, returnData }] of forwardResults.entries()) {
+    const { address, name } = candidates[index]
+    const forward = success ? decodeFunctionResult({ abi: L2_RESOLVER_ABI, functionName: 'addr', data: returnData }) : null
+    results.set(address, forward?.toLowerCase() === address ? name : null)
+  }
+
+  return results
+}
@@ -0,0 +1,87 @@
+// src/core/notifications.ts
+// Rank notification preferences, shared by the preferences function and the app's settings panel
+// (stored in public.notification_preferences, see sql/notifications.sql)
+
+export const NOTIFICATION_PREFERENCES_PATH = '/.netlify/functions/notification-preferences'
+
+export interface NotificationPreferences {
+  top100: boolean // Entering or leaving the top 100
+  top1000: boolean // Entering or leaving the leaderboard
+  overtaken: boolean
+  rankMoves: boolean
+  moveThreshold: number // Places moved in one refresh before `rankMoves` fires
+  maxPerDay: number
+}
+
+// Keep in sync with the column defaults in sql/notifications.sql
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  top100: true,
+  top1000: true,
+  overtaken: true,
+  rankMoves: true,
+  moveThreshold: 10,
+  maxPerDay: 3
+}
+
+export const NOTIFICATION_LIMITS = {
+  MOVE_THRESHOLD: { min: 1, max: 1000 },
+  MAX_PER_DAY: { min: 1, max: 10 }
+}
+
+export interface NotificationPreferencesRow {
+  fid: number
+  top_100: boolean
+  top_1000: boolean
+  overtaken: boolean
+  rank_moves: boolean
+  move_threshold: number
+  max_per_day: number
+}
+
+export function toNotificationPreferences(row: NotificationPreferencesRow | null | undefined): NotificationPreferences {
+  if (!row) return { ...DEFAULT_NOTIFICATION_PREFERENCES }
+  return {
+    top100: row.top_100,
+    top1000: row.top_1000,
+    overtaken: row.overtaken,
+    rankMoves: row.rank_moves,
+    moveThreshold: row.move_threshold,
+    maxPerDay: row.max_per_day
+  }
+}
+
+export function toNotificationPreferencesRow(fid: number, preferences: NotificationPreferences): NotificationPreferencesRow {
+  return {
+    fid,
+    top_100: preferences.top100,
+    top_1000: preferences.top1000,
+    overtaken: preferences.overtaken,
+    rank_moves: preferences.rankMoves,
+    move_threshold: preferences.moveThreshold,
+    max_per_day: preferences.maxPerDay
+  }
+}
+
+function clampInteger(value: unknown, fallback: number, { min, max }: { min: number; max: number }): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? Math.min(Math.max(Math.round(parsed), min), max) : fallback
+}
+
+// Preferences from an untrusted request body; missing or invalid fields keep their current value
+export function mergeNotificationPreferences(current: NotificationPreferences, input: unknown): NotificationPreferences {
+  const update = (typeof input === 'object' && input !== null ? input : {}) as Partial<Record<keyof NotificationPreferences, unknown>>
+  const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback
+
+  return {
+    top100: flag(update.top100, current.top100),
+    top1000: flag(update.top1000, current.top1000),
+    overtaken: flag(update.overtaken, current.overtaken),
+    rankMoves: flag(update.rankMoves, current.rankMoves),
+    moveThreshold: update.moveThreshold === undefined
+      ? current.moveThreshold
+      : clampInteger(update.moveThreshold, current.moveThreshold, NOTIFICATION_LIMITS.MOVE_THRESHOLD),
+    maxPerDay: update.maxPerDay === undefined
+      ? current.maxPerDay
+      : clampInteger(update.maxPerDay, current.maxPerDay, NOTIFICATION_LIMITS.MAX_PER_DAY)
+  }
+}
@@ -0,0 +1,180 @@
+// src/core/rankCard.ts
+// Rank card and leaderboard page image URLs, shared by the app's share links and the frame.
+// Cards are rendered by netlify/functions/rank-card and leaderboard-card; the `v` parameter is
+// a server-side signature of the card's content (netlify/functions/_shared/cardSignature), so only
+// the app can mint card URLs and each distinct card has its own URL that can be cached forever.
+
+import { APP_URL } from '../config/blockchain'
+
+export const RANK_CARD_PATH = '/.netlify/functions/rank-card'
+export const LEADERBOARD_CARD_PATH = '/.netlify/functions/leaderboard-card'
+export const LEADERBOARD_PAGE_SIZE = 10
+
+// Farcaster frames and OG previews use 1.91:1
+export const RANK_CARD_WIDTH = 1200
+export const RANK_CARD_HEIGHT = 628
+// Mini app embeds use 3:2, so the embed layout centres the same card on a taller canvas
+export const RANK_CARD_EMBED_HEIGHT = 800
+
+export type RankCardLayout = 'frame' | 'embed'
+
+const MAX_NAME_LENGTH = 64
+const MAX_CAPTION_LENGTH = 80
+
+// Image hosts Farcaster pfps are served from; the renderer fetches nothing else
+const PFP_HOSTS = [
+  'imagedelivery.net',
+  'wrpcd.net',
+  'res.cloudinary.com',
+  'i.imgur.com',
+  'i.seadn.io',
+  'openseauserdata.com',
+  'lh3.googleusercontent.com',
+  'ipfs.decentralized-content.com',
+]
+
+// Only https pfps on a known image host (or its subdomains) are fetched by the renderer
+export function isFetchablePfp(url: string | null): url is string {
+  if (!url) return false
+  try {
+    const { protocol, hostname } = new URL(url)
+    return protocol === 'https:' && PFP_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  } catch {
+    return false
+  }
+}
+
+// Signs a card's canonical query string; the result becomes its `v` parameter
+export type CardSigner = (payload: string) => string
+
+export interface RankCardData {
+  name: string
+  pfpUrl: string | null
+  rank: number
+  totalHolders: number | null
+  amount: string // Whole TIPN
+  percentile: number | null // Share of holders ranked below, 0-100
+  rankDelta: number | null // Positive means the staker moved up
+  distanceToNextRank?: string | null // TIPN needed to overtake the next holder up, e.g. "12.5"
+  layout?: RankCardLayout // Defaults to 'frame'
+}
+
+// Query parameters in a fixed order, so equal cards always produce the same URL and hash
+function canonicalParams(data: RankCardData): URLSearchParams {
+  const params = new URLSearchParams()
+  params.set('name', data.name.trim().slice(0, MAX_NAME_LENGTH))
+  if (isFetchablePfp(data.pfpUrl)) params.set('pfp', data.pfpUrl)
+  params.set('rank', String(data.rank))
+  if (data.totalHolders !== null) params.set('total', String(data.totalHolders))
+  params.set('amount', data.amount)
+  if (data.percentile !== null) params.set('pct', data.percentile.toFixed(1))
+  if (data.rankDelta !== null && data.rankDelta !== 0) params.set('delta', String(data.rankDelta))
+  if (data.distanceToNextRank) params.set('next', data.distanceToNextRank)
+  if (data.layout === 'embed') params.set('layout', 'embed')
+  return params
+}
+
+// The signed content of a rank card (its canonical query string without `v`)
+export function rankCardPayload(data: RankCardData): string {
+  return canonicalParams(data).toString()
+}
+
+export function getRankCardUrl(data: RankCardData, sign: CardSigner, baseUrl: string = APP_URL): string {
+  const params = canonicalParams(data)
+  params.set('v', sign(params.toString()))
+  return `${baseUrl}${RANK_CARD_PATH}?${params.toString()}`
+}
+
+function optionalNumber(value: string | null): number | null {
+  if (value === null || value === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Card data from a rank card URL's query string; null if required fields are missing or invalid
+export function parseRankCardParams(params: URLSearchParams): RankCardData | null {
+  const name = params.get('name')?.trim()
+  const rank = optionalNumber(params.get('rank'))
+  const amount = params.get('amount')
+
+  if (!name || rank === null || !Number.isInteger(rank) || rank < 1 || !amount || !/^\d+$/.test(amount)) {
+    return null
+  }
+
+  const pfpUrl = params.get('pfp')
+  const percentile = optionalNumber(params.get('pct'))
+  const distanceToNextRank = params.get('next')
+
+  return {
+    name: name.slice(0, MAX_NAME_LENGTH),
+    pfpUrl: isFetchablePfp(pfpUrl) ? pfpUrl : null,
+    rank,
+    totalHolders: optionalNumber(params.get('total')),
+    amount,
+    percentile: percentile === null ? null : Math.min(Math.max(percentile, 0), 100),
+    rankDelta: optionalNumber(params.get('delta')),
+    distanceToNextRank: distanceToNextRank && /^\d+(\.\d+)?$/.test(distanceToNextRank) ? distanceToNextRank : null,
+    layout: params.get('layout') === 'embed' ? 'embed' : 'frame'
+  }
+}
+
+export interface LeaderboardCardRow {
+  rank: number
+  name: string
+  amount: string // Whole TIPN
+}
+
+export interface LeaderboardCardData {
+  page: number // From 1
+  totalPages: number
+  rows: LeaderboardCardRow[]
+  highlightRank: number | null
+  caption: string | null // e.g. search results or "not found" feedback
+}
+
+// Rows are `rank~amount~name`; the name goes last so it may contain the separator
+function canonicalLeaderboardParams(data: LeaderboardCardData): URLSearchParams {
+  const params = new URLSearchParams()
+  params.set('page', String(data.page))
+  params.set('pages', String(data.totalPages))
+  for (const row of data.rows.slice(0, LEADERBOARD_PAGE_SIZE)) {
+    params.append('row', `${row.rank}~${row.amount}~${row.name.trim().slice(0, MAX_NAME_LENGTH)}`)
+  }
+  if (data.highlightRank !== null) params.set('hl', String(data.highlightRank))
+  if (data.caption) params.set('caption', data.caption.trim().slice(0, MAX_CAPTION_LENGTH))
+  return params
+}
+
+export function leaderboardCardPayload(data: LeaderboardCardData): string {
+  return canonicalLeaderboardParams(data).toString()
+}
+
+export function getLeaderboardCardUrl(data: LeaderboardCardData, sign: CardSigner, baseUrl: string = APP_URL): string {
+  const params = canonicalLeaderboardParams(data)
+  params.set('v', sign(params.toString()))
+  return `${baseUrl}${LEADERBOARD_CARD_PATH}?${params.toString()}`
+}
+
+// Card data from a leaderboard card URL's query string; null if it's malformed
+export function parseLeaderboardCardParams(params: URLSearchParams): LeaderboardCardData | null {
+  const page = optionalNumber(params.get('page'))
+  const totalPages = optionalNumber(params.get('pages'))
+  if (page === null || totalPages === null || !Number.isInteger(page) || page < 1 || totalPages < page) {
+    return null
+  }
+
+  const rows: LeaderboardCardRow[] = []
+  for (const value of params.getAll('row').slice(0, LEADERBOARD_PAGE_SIZE)) {
+    const match = /^(\d+)~(\d+)~(.+)$/.exec(value)
+    if (!match) return null
+    rows.push({ rank: Number(match[1]), amount: match[2], name: match[3].trim().slice(0, MAX_NAME_LENGTH) })
+  }
+
+  return {
+    page,
+    totalPages,
+    rows,
+    highlightRank: optionalNumber(params.get('hl')),
+    caption: params.get('caption')?.trim().slice(0, MAX_CAPTION_LENGTH) || null
+  }
+}
@@ -0,0 +1,79 @@
+// src/core/rankLookup.ts
+// Exact rank of a staked balance against the holder set, shared by the app's rank lookup
+// (src/services/rankLookupService) and the frame. Isomorphic: no import.meta.env or '@/' imports.
+
+export interface HolderBalance {
+  address: string
+  amount: bigint
+}
+
+// One provider page of holders sorted by balance (descending); holdersCount is the provider's total
+export interface HolderPage {
+  holders: HolderBalance[]
+  holdersCount: number
+}
+
+export interface HolderRank {
+  rank: number | null // null when nothing is staked
+  totalHolders: number
+  percentile: number | null // Share of holders ranked below, 0-100
+  distanceToNextRank: bigint | null // Wei needed to overtake the next holder up; null at the top
+}
+
+// Rank an amount against holder pages sorted by balance (descending). Ties share a rank:
+// rank = 1 + number of other holders with a strictly larger balance. Pages are only read until
+// one reaches balances at or below the amount, so high ranks cost a single page.
+export async function rankAgainstHolders(
+  address: string,
+  amount: bigint,
+  pages: AsyncIterable<HolderPage> | Iterable<HolderPage>
+): Promise<HolderRank> {
+  const normalized = address.toLowerCase()
+  let ahead = 0
+  let nextHolderAmount: bigint | null = null
+  let holdersCount = 0
+
+  for await (const page of pages) {
+    holdersCount = page.holdersCount
+    if (amount === 0n) break
+
+    let reachedBalance = false
+    for (const holder of page.holders) {
+      if (holder.amount <= amount) {
+        reachedBalance = true
+        break
+      }
+      if (holder.address.toLowerCase() !== normalized) {
+        ahead++
+        nextHolderAmount = holder.amount
+      }
+    }
+    if (reachedBalance) break
+  }
+
+  if (amount === 0n) {
+    return { rank: null, totalHolders: holdersCount, percentile: null, distanceToNextRank: null }
+  }
+
+  const rank = ahead + 1
+  // The balance is read on-chain and can be newer than the provider's index, so never report
+  // fewer holders than the rank
+  const totalHolders = Math.max(holdersCount, rank)
+
+  return {
+    rank,
+    totalHolders,
+    percentile: ((totalHolders - rank) / totalHolders) * 100,
+    distanceToNextRank: nextHolderAmount !== null ? nextHolderAmount - amount + 1n : null,
+  }
+}
+
+// A wei amount as TIPN with up to `fractionDigits` decimals, rounded up so a distance is never
+// understated (a few wei still shows as 0.01 rather than 0)
+export function formatTipnCeil(wei: bigint, fractionDigits = 2): string {
+  const unit = 10n ** BigInt(18 - fractionDigits)
+  const scaled = (wei + unit - 1n) / unit
+  const scale = 10n ** BigInt(fractionDigits)
+  const fraction = (scaled % scale).toString().padStart(fractionDigits, '0').replace(/0+$/, '')
+  return fraction ? `${scaled / scale}.${fraction}` : `${scaled / scale}`
+}
@@ -0,0 +1,209 @@
+// src/core/rateLimit.ts
+// Token-bucket rate limiting shared by every browser tab and server function. The buckets
+// live in Supabase (sql/rate_limits.sql) and only the service role can use them: functions call
+// take_rate_limit_tokens() directly, the app goes through the rate-limit function. Isomorphic like ./identity.
+
+export const RATE_LIMIT_PATH = '/.netlify/functions/rate-limit'
+
+export const RATE_LIMITED_PROVIDERS = ['neynar', 'ens', 'basename'] as const
+export type RateLimitedProvider = typeof RATE_LIMITED_PROVIDERS[number]
+
+export function isRateLimitedProvider(value: unknown): value is RateLimitedProvider {
+  return RATE_LIMITED_PROVIDERS.includes(value as RateLimitedProvider)
+}
+
+export interface RateLimitBudget {
+  capacity: number
+  refillPerHour: number
+}
+
+// Mirrors the seed rows in sql/rate_limits.sql; only used by the local fallback bucket
+export const DEFAULT_RATE_LIMIT_BUDGETS: Record<RateLimitedProvider, RateLimitBudget> = {
+  neynar: { capacity: 100, refillPerHour: 100 },
+  ens: { capacity: 600, refillPerHour: 600 },
+  basename: { capacity: 600, refillPerHour: 600 },
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  remaining: number
+  capacity: number
+  retryAfterMs: number
+}
+
+export interface RateLimitStatus {
+  provider: RateLimitedProvider
+  capacity: number
+  refillPerHour: number
+  available: number
+  used: number
+  totalTaken: number
+  totalDenied: number
+  // Global when read from the shared store, this tab/invocation only for the local fallback
+  shared: boolean
+}
+
+export interface RateLimitStore {
+  take(provider: RateLimitedProvider, tokens: number): Promise<RateLimitDecision>
+  status(): Promise<RateLimitStatus[]>
+}
+
+// Rows returned by take_rate_limit_tokens() and the rate_limit_status view
+export interface TakeTokensRow {
+  allowed: boolean
+  remaining: number
+  capacity: number
+  retry_after_ms: number
+}
+
+export interface RateLimitStatusRow {
+  provider: RateLimitedProvider
+  capacity: number
+  refill_per_hour: number
+  tokens_available: number
+  total_taken: number
+  total_denied: number
+}
+
+export function toRateLimitDecision(row: TakeTokensRow): RateLimitDecision {
+  return {
+    allowed: row.allowed,
+    remaining: Math.floor(row.remaining),
+    capacity: row.capacity,
+    retryAfterMs: Number(row.retry_after_ms),
+  }
+}
+
+export function toRateLimitStatus(row: RateLimitStatusRow): RateLimitStatus {
+  const available = Math.floor(row.tokens_available)
+  return {
+    provider: row.provider,
+    capacity: row.capacity,
+    refillPerHour: row.refill_per_hour,
+    available,
+    used: row.capacity - available,
+    totalTaken: Number(row.total_taken),
+    totalDenied: Number(row.total_denied),
+    shared: true,
+  }
+}
+
+export class RateLimitExceededError extends Error {
+  readonly provider: RateLimitedProvider
+  readonly retryAfterMs: number
+
+  constructor(provider: RateLimitedProvider, retryAfterMs: number) {
+    super(`${provider} rate limit reached, retry in ${Math.ceil(retryAfterMs / 1000)}s`)
+    this.name = 'RateLimitExceededError'
+    this.provider = provider
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+interface LocalBucket {
+  tokens: number
+  updatedAt: number
+  totalTaken: number
+  totalDenied: number
+}
+
+// In-memory token buckets, used only while the shared store can't be reached
+export class LocalTokenBucketStore implements RateLimitStore {
+  private readonly buckets = new Map<RateLimitedProvider, LocalBucket>()
+
+  constructor(private readonly budgets: Record<RateLimitedProvider, RateLimitBudget> = DEFAULT_RATE_LIMIT_BUDGETS) {}
+
+  private refill(provider: RateLimitedProvider, now: number): LocalBucket {
+    const budget = this.budgets[provider]
+    const bucket = this.buckets.get(provider) ?? { tokens: budget.capacity, updatedAt: now, totalTaken: 0, totalDenied: 0 }
+    bucket.tokens = Math.min(budget.capacity, bucket.tokens + ((now - bucket.updatedAt) / 3_600_000) * budget.refillPerHour)
+    bucket.updatedAt = now
+    this.buckets.set(provider, bucket)
+    return bucket
+  }
+
+  async take(provider: RateLimitedProvider, tokens: number): Promise<RateLimitDecision> {
+    const budget = this.budgets[provider]
+    const bucket = this.refill(provider, Date.now())
+
+    if (bucket.tokens >= tokens) {
+      bucket.tokens -= tokens
+      bucket.totalTaken += tokens
+      return { allowed: true, remaining: Math.floor(bucket.tokens), capacity: budget.capacity, retryAfterMs: 0 }
+    }
+
+    bucket.totalDenied++
+    return {
+      allowed: false,
+      remaining: Math.floor(bucket.tokens),
+      capacity: budget.capacity,
+      retryAfterMs: Math.ceil(((tokens - bucket.tokens) / budget.refillPerHour) * 3_600_000),
+    }
+  }
+
+  async status(): Promise<RateLimitStatus[]> {
+    const now = Date.now()
+    return (Object.keys(this.budgets) as RateLimitedProvider[]).map(provider => {
+      const bucket = this.refill(provider, now)
+      const { capacity, refillPerHour } = this.budgets[provider]
+      const available = Math.floor(bucket.tokens)
+      return {
+        provider,
+        capacity,
+        refillPerHour,
+        available,
+        used: capacity - available,
+        totalTaken: bucket.totalTaken,
+        totalDenied: bucket.totalDenied,
+        shared: false,
+      }
+    })
+  }
+}
+
+// Draws tokens from the shared store before each provider request. After a denial the
+// provider is blocked locally until a token is due, so callers don't query the store in a loop.
+// If the store itself fails, a local bucket keeps lookups limited instead of failing them.
+export class SharedRateLimiter {
+  private readonly blockedUntil = new Map<RateLimitedProvider, number>()
+
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly fallback: RateLimitStore = new LocalTokenBucketStore()
+  ) {}
+
+  // True while a recent denial says the provider's budget is exhausted
+  isBlocked(provider: RateLimitedProvider): boolean {
+    return (this.blockedUntil.get(provider) ?? 0) > Date.now()
+  }
+
+  // Take `tokens` from the provider's budget or throw RateLimitExceededError
+  async acquire(provider: RateLimitedProvider, tokens = 1): Promise<void> {
+    const blockedUntil = this.blockedUntil.get(provider) ?? 0
+    if (blockedUntil > Date.now()) {
+      throw new RateLimitExceededError(provider, blockedUntil - Date.now())
+    }
+
+    let decision: RateLimitDecision
+    try {
+      decision = await this.store.take(provider, tokens)
+    } catch (error) {
+      console.warn(`⚠️ Shared rate limit store unavailable, using local ${provider} budget:`, error)
+      decision = await this.fallback.take(provider, tokens)
+    }
+
+    if (!decision.allowed) {
+      this.blockedUntil.set(provider, Date.now() + decision.retryAfterMs)
+      throw new RateLimitExceededError(provider, decision.retryAfterMs)
+    }
+  }
+
+  async status(): Promise<RateLimitStatus[]> {
+    try {
+      return await this.store.status()
+    } catch (error) {
+      console.warn('⚠️ Shared rate limit status unavailable, reporting local budgets:', error)
+      return this.fallback.status()
+    }
+  }
+}
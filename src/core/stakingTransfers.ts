@@ -0,0 +1,79 @@
+// src/core/stakingTransfers.ts
+// Replays staking-token Transfer logs into balances. Isomorphic: no import.meta.env or '@/'
+// imports; the staking indexer function (netlify/functions/index-staking.ts) runs it.
+import { getAbiItem, zeroAddress, type PublicClient } from 'viem'
+import { TIPN_CONFIG, TIPN_STAKING_ABI } from '../config/blockchain'
+
+export const DEFAULT_CHUNK_SIZE = 2000n
+const MIN_CHUNK_SIZE = 10n
+
+const TRANSFER_EVENT = getAbiItem({ abi: TIPN_STAKING_ABI, name: 'Transfer' })
+
+export interface ReplayOptions {
+  fromBlock: bigint
+  toBlock: bigint
+  balances?: Map<string, bigint>
+  chunkSize?: bigint
+  // Called after every chunk with the addresses whose balance changed in it
+  onChunk?: (chunk: { fromBlock: bigint; toBlock: bigint; changed: Set<string> }) => Promise<void>
+  // Checked before every chunk; returning true ends the replay early (the range is resumable)
+  shouldStop?: () => boolean
+}
+
+// Replay staking-token Transfer logs over a block range, in chunks, into a balance map.
+// Pure RPC: no persistence, so it can compute exact balances at any block (or against a fork).
+export async function replayStakingTransfers(
+  client: PublicClient,
+  { fromBlock, toBlock, balances = new Map(), chunkSize = DEFAULT_CHUNK_SIZE, onChunk, shouldStop }: ReplayOptions
+): Promise<Map<string, bigint>> {
+  let currentChunkSize = chunkSize
+  let start = fromBlock
+
+  while (start <= toBlock && !shouldStop?.()) {
+    const end = start + currentChunkSize - 1n < toBlock ? start + currentChunkSize - 1n : toBlock
+
+    // Most providers cap the block range or result size - on failure halve the range and retry
+    const logs = await client.getLogs({
+      address: TIPN_CONFIG.stakingAddress,
+      event: TRANSFER_EVENT,
+      fromBlock: start,
+      toBlock: end,
+      strict: true,
+    }).catch((error: unknown) => {
+      if (currentChunkSize > MIN_CHUNK_SIZE) return null
+      throw error
+    })
+
+    if (!logs) {
+      currentChunkSize = currentChunkSize / 2n
+      console.warn(`⚠️ getLogs failed for ${start}-${end}, retrying with ${currentChunkSize} blocks`)
+      continue
+    }
+
+    const changed = new Set<string>()
+    for (const log of logs) {
+      const { from, to, value } = log.args
+      const fromAddress = from.toLowerCase()
+      const toAddress = to.toLowerCase()
+
+      if (fromAddress !== zeroAddress) {
+        balances.set(fromAddress, (balances.get(fromAddress) ?? 0n) - value)
+        changed.add(fromAddress)
+      }
+      if (toAddress !== zeroAddress) {
+        balances.set(toAddress, (balances.get(toAddress) ?? 0n) + value)
+        changed.add(toAddress)
+      }
+    }
+
+    console.log(`📜 Indexed blocks ${start}-${end}: ${logs.length} transfers`)
+
+    if (onChunk) {
+      await onChunk({ fromBlock: start, toBlock: end, changed })
+    }
+
+    start = end + 1n
+  }
+
+  return balances
+}
@@ -0,0 +1,69 @@
+// src/hooks/useMiniAppActions.ts
+import { useCallback, useContext } from 'react'
+import sdk from '@farcaster/frame-sdk'
+import { FarcasterContext } from '../App'
+import { getFarcasterComposeUrl } from '@/core/identity'
+
+type CastEmbeds = [] | [string] | [string, string]
+
+// Casts take at most two embeds
+function toCastEmbeds(embeds: string[]): CastEmbeds {
+  return embeds.slice(0, 2) as CastEmbeds
+}
+
+// Farcaster actions that use the Mini App SDK inside a Farcaster client and fall back to
+// farcaster.xyz links in a regular browser
+export function useMiniAppActions() {
+  const { isFrameContext } = useContext(FarcasterContext)
+
+  // Mini apps can't open new tabs, so links go through the client
+  const openUrl = useCallback(async (url: string) => {
+    if (isFrameContext) {
+      try {
+        await sdk.actions.openUrl(url)
+        return
+      } catch (error) {
+        console.warn(`⚠️ openUrl failed for ${url}:`, error)
+      }
+    }
+    window.open(url, '_blank', 'noopener,noreferrer')
+  }, [isFrameContext])
+
+  const composeCast = useCallback(async (text: string, embeds: string[] = []) => {
+    if (isFrameContext) {
+      try {
+        await sdk.actions.composeCast({ text, embeds: toCastEmbeds(embeds) })
+        return
+      } catch (error) {
+        console.warn('⚠️ composeCast failed, opening the web composer instead:', error)
+      }
+    }
+    await openUrl(getFarcasterComposeUrl(text, embeds))
+  }, [isFrameContext, openUrl])
+
+  const viewProfile = useCallback(async (fid: number | undefined, profileUrl: string) => {
+    if (isFrameContext && fid) {
+      try {
+        await sdk.actions.viewProfile({ fid })
+        return
+      } catch (error) {
+        console.warn(`⚠️ viewProfile failed for fid ${fid}, opening ${profileUrl} instead:`, error)
+      }
+    }
+    await openUrl(profileUrl)
+  }, [isFrameContext, openUrl])
+
+  // Ask the client to add the app; true if the user also enabled notifications
+  const addMiniApp = useCallback(async (): Promise<boolean> => {
+    if (!isFrameContext) return false
+    try {
+      const result = await sdk.actions.addFrame()
+      return !!result.notificationDetails
+    } catch (error) {
+      console.warn('⚠️ addFrame failed or was rejected:', error)
+      return false
+    }
+  }, [isFrameContext])
+
+  return { isMiniApp: isFrameContext, openUrl, composeCast, viewProfile, addMiniApp }
+}
@@ -0,0 +1,16 @@
+// src/hooks/useMyRank.ts
+import { useQuery } from '@tanstack/react-query'
+import { lookupBestRank } from '@/services/rankLookupService'
+
+// Best exact rank across the given addresses (null if none of them has anything staked)
+export function useMyRank(addresses: string[]) {
+  const normalized = addresses.map(address => address.toLowerCase())
+
+  return useQuery({
+    queryKey: ['myRank', normalized],
+    queryFn: () => lookupBestRank(normalized),
+    enabled: normalized.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  })
+}
@@ -0,0 +1,31 @@
+// src/hooks/useNotificationSettings.ts
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  fetchNotificationSettings,
+  saveNotificationPreferences,
+  type NotificationSettings
+} from '@/services/notificationPreferencesService'
+import type { NotificationPreferences } from '@/core/notifications'
+
+// The signed-in user's rank notification settings (only available inside the mini app)
+export function useNotificationSettings(enabled: boolean) {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ['notificationSettings'],
+    queryFn: fetchNotificationSettings,
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+    retry: 1,
+  })
+
+  const mutation = useMutation({
+    mutationFn: (update: Partial<NotificationPreferences>) => saveNotificationPreferences(update),
+    onSuccess: (settings: NotificationSettings) => {
+      queryClient.setQueryData(['notificationSettings'], settings)
+    },
+  })
+
+  return { ...query, save: mutation.mutate, isSaving: mutation.isPending }
+}
@@ -0,0 +1,13 @@
+// src/hooks/useRefreshStatus.ts
+import { useQuery } from '@tanstack/react-query'
+import { fetchRefreshStatus } from '@/services/refreshStatusService'
+
+export function useRefreshStatus() {
+  return useQuery({
+    queryKey: ['refreshStatus'],
+    queryFn: fetchRefreshStatus,
+    staleTime: 60 * 1000, // 1 minute
+    refetchInterval: 5 * 60 * 1000, // Keep "X minutes ago" and the stale flag current
+    refetchOnWindowFocus: false,
+  })
+}
@@ -0,0 +1,69 @@
+// src/hooks/useStakerProfile.ts
+import { useQuery } from '@tanstack/react-query'
+import { fetchStakerByAddress } from '@/hooks/useTopStakers'
+import { fetchStakerHistory, fetchFirstSeen, type StakerHistoryPoint } from '@/services/rankHistoryService'
+import { getIdentityWithCache, type DisplayIdentity } from '@/services/cachedIdentityService'
+import { lookupAddressRank } from '@/services/rankLookupService'
+import { resolveAddressInput } from '@/utils/identity'
+import type { Staker, StakerWithIdentity } from '@/types'
+
+export interface StakerProfile {
+  address: string
+  resolvedFrom: 'address' | 'farcaster' | 'ens' | 'basename'
+  staker: StakerWithIdentity | null
+  // Position in the full holder set, for stakers outside the top 1000
+  fullListRank: Staker | null
+  identity: DisplayIdentity
+  history: StakerHistoryPoint[]
+  firstSeen: Date | null
+}
+
+// Resolve the route parameter and load everything the profile page shows
+async function fetchStakerProfile(query: string): Promise<StakerProfile | null> {
+  console.log(`🔍 Loading staker profile for ${query}...`)
+
+  const resolved = await resolveAddressInput(query)
+  if (!resolved) {
+    console.log(`❌ Could not resolve ${query} to an address`)
+    return null
+  }
+
+  const { address, source } = resolved
+  const [staker, identity, history, firstSeen] = await Promise.all([
+    fetchStakerByAddress(address),
+    getIdentityWithCache(address),
+    fetchStakerHistory(address),
+    fetchFirstSeen(address)
+  ])
+
+  // Outside the top 1000 - rank the on-chain balance against the holder pages
+  const fullListRank = staker ? null : await lookupAddressRank(address).then(
+    ({ amount, rank }): Staker | null => rank !== null ? { address, amount, rank } : null,
+    (error) => {
+      console.warn(`Could not rank ${address} in the holder set:`, error)
+      return null
+    }
+  )
+
+  console.log(`✅ Loaded profile for ${address} (${history.length} snapshots)`)
+
+  return {
+    address,
+    resolvedFrom: source,
+    staker,
+    fullListRank,
+    identity,
+    history,
+    firstSeen
+  }
+}
+
+export function useStakerProfile(query: string | undefined) {
+  return useQuery({
+    queryKey: ['stakerProfile', query?.toLowerCase()],
+    queryFn: () => fetchStakerProfile(query as string),
+    enabled: !!query,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  })
+}
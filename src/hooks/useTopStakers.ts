@@ -1,99 +1,16 @@
 // src/hooks/useTopStakers.ts
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
-import { fetchTopTipnHolders } from '@/services/ankrTokenService'
-import { getFarcasterUserByAddress } from '@/utils/farcaster'
-import { resolveName } from '@/utils/ens'
-import type { StakerWithIdentity } from '@/types'
+import { holderSource, fetchAllHoldersCached } from '@/services/holderSource'
+import { loadRankMovement, applyRankMovement } from '@/services/rankHistoryService'
+import { multicallBalances } from '@/services/rpcHolderSource'
+import { batchGetFarcasterUsers } from '@/utils/farcaster'
+import { getFarcasterProfileUrl } from '@/core/identity'
+import type { DroppedStaker, StakerWithIdentity } from '@/types'
 
 // Re-export the type for convenience
 export type { StakerWithIdentity } from '@/types'
 
-// Cache timing
-const REFRESH_COOLDOWN_MS = 30 * 60 * 1000 // 30 minutes
-const REFRESH_CACHE_KEY = 'tipn_last_refresh'
-
-function canRefresh(): boolean {
-  const lastRefresh = localStorage.getItem(REFRESH_CACHE_KEY)
-  if (!lastRefresh) return true
-  
-  const timeSinceRefresh = Date.now() - parseInt(lastRefresh)
-  return timeSinceRefresh >= REFRESH_COOLDOWN_MS
-}
-
-export function getTimeUntilNextRefresh(): number {
-  const lastRefresh = localStorage.getItem(REFRESH_CACHE_KEY)
-  if (!lastRefresh) return 0
-  
-  const timeSinceRefresh = Date.now() - parseInt(lastRefresh)
-  const remaining = REFRESH_COOLDOWN_MS - timeSinceRefresh
-  return Math.max(0, remaining)
-}
-
-// Fetch identity for a single address
-async function enrichWithIdentity(address: string): Promise<Partial<StakerWithIdentity>> {
-  try {
-    console.log(`🔍 Enriching ${address}...`)
-    
-    const [farcasterUser, ensData] = await Promise.all([
-      getFarcasterUserByAddress(address).catch(() => null),
-      resolveName(address).catch(() => ({ ens: null, basename: null }))
-    ])
-
-    // Determine display name and identity type
-    let displayName: string
-    let identityType: 'farcaster' | 'ens' | 'basename' | 'address'
-    let profileUrl: string | undefined
-    let hasVerifiedIdentity: boolean
-
-    if (farcasterUser) {
-      displayName = farcasterUser.displayName || `@${farcasterUser.username}`
-      identityType = 'farcaster'
-      profileUrl = `https://warpcast.com/${farcasterUser.username}`
-      hasVerifiedIdentity = true
-    } else if (ensData.basename) {
-      displayName = ensData.basename
-      identityType = 'basename'
-      hasVerifiedIdentity = true
-    } else if (ensData.ens) {
-      displayName = ensData.ens
-      identityType = 'ens'
-      hasVerifiedIdentity = true
-    } else {
-      displayName = `${address.slice(0, 6)}...${address.slice(-4)}`
-      identityType = 'address'
-      hasVerifiedIdentity = false
-    }
-
-    const enriched: Partial<StakerWithIdentity> = {
-      displayName,
-      identityType,
-      hasVerifiedIdentity,
-      profileUrl,
-      farcasterUsername: farcasterUser?.username,
-      farcasterDisplayName: farcasterUser?.displayName,
-      farcasterPfpUrl: farcasterUser?.pfpUrl,
-      farcasterBio: farcasterUser?.bio,
-      farcasterFollowerCount: farcasterUser?.followerCount,
-      ensName: ensData.ens || undefined,
-      basename: ensData.basename || undefined,
-    }
-
-    if (hasVerifiedIdentity) {
-      console.log(`✨ Found identity: ${displayName} (${identityType})`)
-    }
-
-    return enriched
-  } catch (error) {
-    console.error(`Failed to enrich ${address}:`, error)
-    return {
-      displayName: `${address.slice(0, 6)}...${address.slice(-4)}`,
-      identityType: 'address',
-      hasVerifiedIdentity: false
-    }
-  }
-}
-
 // Helper function to create a complete StakerWithIdentity from partial data
 function createStakerWithIdentity(
   baseStaker: { address: string; amount: bigint; rank: number },
@@ -106,6 +23,7 @@ function createStakerWithIdentity(
     displayName: identityData?.displayName || fallbackDisplayName,
     hasVerifiedIdentity: identityData?.hasVerifiedIdentity || false,
     identityType: identityData?.identityType || 'address',
+    farcasterFid: identityData?.farcasterFid,
     farcasterUsername: identityData?.farcasterUsername,
     farcasterDisplayName: identityData?.farcasterDisplayName,
     farcasterPfpUrl: identityData?.farcasterPfpUrl,
@@ -117,52 +35,64 @@ function createStakerWithIdentity(
   }
 }
 
-// Save to unified table structure
-async function saveToSupabase(stakers: StakerWithIdentity[]): Promise<void> {
-  try {
-    console.log('💾 Saving unified staker data to Supabase...')
-    
-    // Clear existing data
-    await supabase.from('tipn_stakers').delete().neq('address', '')
-    
-    // Convert and save in batches
-    const batchSize = 100
-    for (let i = 0; i < stakers.length; i += batchSize) {
-      const batch = stakers.slice(i, i + batchSize)
-      const rows = batch.map(staker => ({
-        address: staker.address,
-        amount: staker.amount.toString(),
-        rank: staker.rank,
-        updated_at: new Date().toISOString(),
-        
-        // Identity columns
-        display_name: staker.displayName,
-        farcaster_username: staker.farcasterUsername || null,
-        farcaster_display_name: staker.farcasterDisplayName || null,
-        farcaster_pfp_url: staker.farcasterPfpUrl || null,
-        farcaster_bio: staker.farcasterBio || null,
-        farcaster_follower_count: staker.farcasterFollowerCount || 0,
-        ens_name: staker.ensName || null,
-        basename: staker.basename || null,
-        has_verified_identity: staker.hasVerifiedIdentity,
-        identity_type: staker.identityType,
-        profile_url: staker.profileUrl || null,
-        identity_last_updated: new Date().toISOString()
-      }))
+// tipn_stakers columns read for the leaderboard (amount as text: NUMERIC exceeds JSON number precision)
+const STAKER_COLUMNS = 'address, amount::text, rank, fid, farcaster_username, farcaster_display_name, farcaster_pfp_url, farcaster_bio, farcaster_follower_count, ens_name, basename, has_verified_identity, identity_type, display_name, profile_url'
 
-      const { error } = await supabase.from('tipn_stakers').insert(rows)
-      if (error) throw error
-      
-      console.log(`💾 Saved batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(stakers.length / batchSize)}`)
-    }
+interface TipnStakerRow {
+  address: string
+  amount: string
+  rank: number
+  fid: number | null
+  farcaster_username: string | null
+  farcaster_display_name: string | null
+  farcaster_pfp_url: string | null
+  farcaster_bio: string | null
+  farcaster_follower_count: number | null
+  ens_name: string | null
+  basename: string | null
+  has_verified_identity: boolean | null
+  identity_type: StakerWithIdentity['identityType'] | null
+  display_name: string | null
+  profile_url: string | null
+}
+
+// Convert a tipn_stakers row into a StakerWithIdentity
+function rowToStaker(row: TipnStakerRow): StakerWithIdentity {
+  return {
+    address: row.address,
+    amount: BigInt(row.amount),
+    rank: row.rank,
     
-    console.log(`✅ Saved ${stakers.length} enriched stakers`)
-  } catch (error) {
-    console.error('Failed to save to Supabase:', error)
-    throw error
+    // Identity data - ensure displayName is never undefined
+    displayName: row.display_name || `${row.address.slice(0, 6)}...${row.address.slice(-4)}`,
+    farcasterFid: row.fid || undefined,
+    farcasterUsername: row.farcaster_username || undefined,
+    farcasterDisplayName: row.farcaster_display_name || undefined,
+    farcasterPfpUrl: row.farcaster_pfp_url || undefined,
+    farcasterBio: row.farcaster_bio || undefined,
+    farcasterFollowerCount: row.farcaster_follower_count || undefined,
+    ensName: row.ens_name || undefined,
+    basename: row.basename || undefined,
+    hasVerifiedIdentity: row.has_verified_identity || false,
+    identityType: row.identity_type || 'address',
+    // Rebuilt from the username so rows saved with older profile hosts link consistently
+    profileUrl: row.farcaster_username ? getFarcasterProfileUrl(row.farcaster_username) : row.profile_url || undefined
   }
 }
 
+// Load a single staker from the current ranking (null if not in the top 1000)
+export async function fetchStakerByAddress(address: string): Promise<StakerWithIdentity | null> {
+  const { data, error } = await supabase
+    .from('tipn_stakers')
+    .select(STAKER_COLUMNS)
+    .eq('address', address.toLowerCase())
+    .limit(1)
+    .overrideTypes<TipnStakerRow[], { merge: false }>()
+
+  if (error) throw error
+  return data?.[0] ? rowToStaker(data[0]) : null
+}
+
 // Load from unified table structure
 async function loadFromSupabase(): Promise<StakerWithIdentity[]> {
   try {
@@ -170,9 +100,10 @@ async function loadFromSupabase(): Promise<StakerWithIdentity[]> {
     
     const { data, error } = await supabase
       .from('tipn_stakers')
-      .select('*')
+      .select(STAKER_COLUMNS)
       .order('rank', { ascending: true })
       .limit(1000)
+      .overrideTypes<TipnStakerRow[], { merge: false }>()
 
     if (error) throw error
     
@@ -181,24 +112,7 @@ async function loadFromSupabase(): Promise<StakerWithIdentity[]> {
       return []
     }
     
-    const stakers: StakerWithIdentity[] = data.map(row => ({
-      address: row.address,
-      amount: BigInt(row.amount),
-      rank: row.rank,
-      
-      // Identity data - ensure displayName is never undefined
-      displayName: row.display_name || `${row.address.slice(0, 6)}...${row.address.slice(-4)}`,
-      farcasterUsername: row.farcaster_username || undefined,
-      farcasterDisplayName: row.farcaster_display_name || undefined,
-      farcasterPfpUrl: row.farcaster_pfp_url || undefined,
-      farcasterBio: row.farcaster_bio || undefined,
-      farcasterFollowerCount: row.farcaster_follower_count || undefined,
-      ensName: row.ens_name || undefined,
-      basename: row.basename || undefined,
-      hasVerifiedIdentity: row.has_verified_identity || false,
-      identityType: row.identity_type || 'address',
-      profileUrl: row.profile_url || undefined
-    }))
+    const stakers: StakerWithIdentity[] = data.map(rowToStaker)
     
     console.log(`✅ Loaded ${stakers.length} enriched stakers from Supabase`)
     return stakers
@@ -208,6 +122,12 @@ async function loadFromSupabase(): Promise<StakerWithIdentity[]> {
   }
 }
 
+// Attach rank movement from stored snapshots
+async function withRankMovement(stakers: StakerWithIdentity[]): Promise<StakerWithIdentity[]> {
+  const movement = await loadRankMovement()
+  return applyRankMovement(stakers, movement)
+}
+
 // Main fetch function - simplified to avoid loading issues
 async function fetchTopStakers(): Promise<StakerWithIdentity[]> {
   try {
@@ -218,23 +138,20 @@ async function fetchTopStakers(): Promise<StakerWithIdentity[]> {
     
     if (cachedStakers.length > 0) {
       console.log(`🎯 Using cached data: ${cachedStakers.length} stakers`)
-      return cachedStakers
+      return withRankMovement(cachedStakers)
     }
     
-    // No cache - fetch fresh and create basic stakers (no enrichment to avoid blocking)
-    console.log('📦 No cache found, fetching fresh staking data...')
-    const freshStakers = await fetchTopTipnHolders(1000)
+    // Table not populated yet (refresh job hasn't run) - show live data without saving it
+    console.log('📦 No cache found, fetching live staking data...')
+    const freshStakers = await holderSource.fetchTopHolders(1000)
     
     // Create basic stakers without enrichment for fast loading
     const basicStakers: StakerWithIdentity[] = freshStakers.map(staker => 
       createStakerWithIdentity(staker)
     )
     
-    // Save basic data immediately
-    await saveToSupabase(basicStakers)
-    
-    console.log(`✅ Loaded ${basicStakers.length} stakers (basic data saved)`)
-    return basicStakers
+    console.log(`✅ Loaded ${basicStakers.length} live stakers`)
+    return withRankMovement(basicStakers)
     
   } catch (error) {
     console.error('Failed to fetch top stakers:', error)
@@ -242,65 +159,6 @@ async function fetchTopStakers(): Promise<StakerWithIdentity[]> {
   }
 }
 
-// Force refresh function
-export async function forceRefreshStakers(): Promise<StakerWithIdentity[]> {
-  if (!canRefresh()) {
-    const remainingMs = getTimeUntilNextRefresh()
-    const remainingMinutes = Math.ceil(remainingMs / (60 * 1000))
-    throw new Error(`Please wait ${remainingMinutes} more minutes before refreshing again`)
-  }
-
-  console.log('🔄 Force refresh initiated...')
-  
-  try {
-    // Get fresh staking data
-    const freshStakers = await fetchTopTipnHolders(1000)
-    
-    // Load existing identities to preserve them
-    const existingData = await loadFromSupabase()
-    const identityMap = new Map<string, Partial<StakerWithIdentity>>()
-    
-    existingData.forEach(staker => {
-      if (staker.hasVerifiedIdentity) {
-        identityMap.set(staker.address, {
-          displayName: staker.displayName,
-          farcasterUsername: staker.farcasterUsername,
-          farcasterDisplayName: staker.farcasterDisplayName,
-          farcasterPfpUrl: staker.farcasterPfpUrl,
-          farcasterBio: staker.farcasterBio,
-          farcasterFollowerCount: staker.farcasterFollowerCount,
-          ensName: staker.ensName,
-          basename: staker.basename,
-          hasVerifiedIdentity: staker.hasVerifiedIdentity,
-          identityType: staker.identityType,
-          profileUrl: staker.profileUrl
-        })
-      }
-    })
-    
-    console.log(`🔄 Preserving ${identityMap.size} existing identities`)
-    
-    // Merge fresh staking data with preserved identities using the helper function
-    const mergedStakers: StakerWithIdentity[] = freshStakers.map(staker => {
-      const existingIdentity = identityMap.get(staker.address)
-      return createStakerWithIdentity(staker, existingIdentity)
-    })
-    
-    // Save merged data
-    await saveToSupabase(mergedStakers)
-    
-    // Update refresh timestamp
-    localStorage.setItem(REFRESH_CACHE_KEY, Date.now().toString())
-    
-    console.log(`✅ Force refresh completed - ${mergedStakers.length} stakers updated`)
-    return mergedStakers
-    
-  } catch (error) {
-    console.error('❌ Force refresh failed:', error)
-    throw error
-  }
-}
-
 // React Query hook - same interface as before!
 export function useTopStakers() {
   return useQuery({
@@ -314,68 +172,96 @@ export function useTopStakers() {
   })
 }
 
-export function useCanRefresh() {
-  return canRefresh()
+// Stakers that left the top 1000 since the previous snapshot
+async function fetchDroppedStakers(): Promise<DroppedStaker[]> {
+  const movement = await loadRankMovement()
+  return movement.droppedOut
 }
 
-// Background enrichment function - can be called separately
-export async function backgroundEnrichStakers(limit: number = 20): Promise<number> {
-  try {
-    console.log(`🔍 Starting background enrichment for ${limit} stakers...`)
-    
-    // Load current cached data
-    const cachedStakers = await loadFromSupabase()
-    if (cachedStakers.length === 0) {
-      console.log('No cached data found for enrichment')
-      return 0
-    }
-    
-    // Find stakers without verified identities (top ranked first)
-    const unenrichedStakers = cachedStakers
-      .filter(staker => !staker.hasVerifiedIdentity)
-      .sort((a, b) => a.rank - b.rank) // Sort by rank
-      .slice(0, limit) // Take only the specified limit
-    
-    if (unenrichedStakers.length === 0) {
-      console.log('✅ All top stakers already have verified identities')
-      return 0
-    }
-    
-    console.log(`🎯 Enriching ${unenrichedStakers.length} stakers...`)
-    let enriched = 0
-    
-    for (const staker of unenrichedStakers) {
-      try {
-        const identityData = await enrichWithIdentity(staker.address)
-        const updatedStaker = createStakerWithIdentity(
-          { address: staker.address, amount: staker.amount, rank: staker.rank },
-          identityData
-        )
-        
-        // Update in the cached array
-        const index = cachedStakers.findIndex(s => s.address === staker.address)
-        if (index !== -1) {
-          cachedStakers[index] = updatedStaker
-          enriched++
-        }
-        
-        // Rate limiting delay
-        await new Promise(resolve => setTimeout(resolve, 800))
-        
-      } catch (error) {
-        console.warn(`Failed to enrich ${staker.address}:`, error)
-      }
-    }
-    
-    if (enriched > 0) {
-      // Save updated data back to Supabase
-      await saveToSupabase(cachedStakers)
-      console.log(`✅ Background enriched ${enriched} stakers`)
+export function useDroppedStakers() {
+  return useQuery({
+    queryKey: ['droppedStakers'],
+    queryFn: fetchDroppedStakers,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  })
+}
+
+// Every holder (not just the top 1000), with identities carried over from the top list
+async function fetchFullStakerList(topStakers: StakerWithIdentity[]): Promise<StakerWithIdentity[]> {
+  console.log('📚 Loading full holder list...')
+  const holders = await fetchAllHoldersCached()
+  const knownStakers = new Map(topStakers.map(staker => [staker.address, staker]))
+
+  const stakers = holders.map(holder => createStakerWithIdentity(holder, knownStakers.get(holder.address)))
+  console.log(`✅ Loaded ${stakers.length} holders`)
+  return stakers
+}
+
+export function useFullStakerList(topStakers: StakerWithIdentity[] | undefined, enabled: boolean) {
+  return useQuery({
+    queryKey: ['fullStakerList'],
+    queryFn: () => fetchFullStakerList(topStakers || []),
+    enabled: enabled && !!topStakers,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  })
+}
+
+// The listed stakers plus every verified wallet of their Farcaster accounts, so identity groups
+// sum all of a user's wallets: listed wallets without an identity (full-list holders outside the
+// top 1000) get the account's identity, and wallets missing from the list are read on-chain
+async function fetchIdentityStakers(stakers: StakerWithIdentity[]): Promise<StakerWithIdentity[]> {
+  console.log('🔗 Loading verified wallets for identity groups...')
+  const farcasterStakers = stakers.filter(staker => staker.farcasterFid)
+  const users = await batchGetFarcasterUsers(farcasterStakers.map(staker => staker.address))
+
+  // Each verified wallet takes the identity of the listed wallet it was found through
+  const identityByWallet = new Map<string, StakerWithIdentity>()
+  for (const staker of farcasterStakers) {
+    for (const wallet of users.get(staker.address)?.verifiedAddresses || []) {
+      const address = wallet.toLowerCase()
+      if (!identityByWallet.has(address)) identityByWallet.set(address, staker)
     }
-    
-    return enriched
-  } catch (error) {
-    console.error('Background enrichment failed:', error)
-    return 0
   }
-}
\ No newline at end of file
+
+  const listed = stakers.map(staker => {
+    const identity = staker.farcasterFid ? undefined : identityByWallet.get(staker.address)
+    return identity ? createStakerWithIdentity(staker, identity) : staker
+  })
+
+  const listedAddresses = new Set(stakers.map(staker => staker.address))
+  const unlisted = [...identityByWallet.keys()].filter(address => !listedAddresses.has(address))
+  const balances = unlisted.length > 0 ? await multicallBalances(unlisted) : new Map<string, bigint>()
+  const extraWallets = [...balances]
+    .filter(([, amount]) => amount > 0n)
+    .map(([address, amount]): StakerWithIdentity => ({
+      ...createStakerWithIdentity({ address, amount, rank: stakers.length + 1 }, identityByWallet.get(address)),
+      isUnlisted: true,
+    }))
+
+  console.log(`✅ Added ${extraWallets.length} staked wallets from outside the list`)
+  return [...listed, ...extraWallets]
+}
+
+// `listKey` names the list being grouped (e.g. 'top' or 'full'), since the stakers themselves
+// are too large for a query key
+export function useIdentityStakers(stakers: StakerWithIdentity[] | undefined, listKey: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ['identityStakers', listKey],
+    queryFn: () => fetchIdentityStakers(stakers || []),
+    enabled: enabled && !!stakers,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  })
+}
+
+// True number of holders, which can be far larger than the 1000 shown
+export function useHolderCount() {
+  return useQuery({
+    queryKey: ['holderCount'],
+    queryFn: () => holderSource.fetchHolderCount(),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  })
+}
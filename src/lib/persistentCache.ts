@@ -0,0 +1,302 @@
+// src/lib/persistentCache.ts
+// Persistent client-side cache backed by IndexedDB, shared by the identity resolvers.
+// Entries expire per kind: found values, "not found" results and lookup errors each have
+// their own TTL. Every namespace is size-limited and keeps hit/miss stats for the debug view.
+
+const DB_NAME = 'top-tipners-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'entries'
+
+// Share of entries dropped when a namespace goes over its limit, so eviction isn't run on every write
+const EVICTION_RATIO = 0.1
+
+export type CacheEntryKind = 'value' | 'not-found' | 'error'
+
+export interface CacheTtls {
+  value: number
+  notFound: number
+  error: number
+}
+
+export interface PersistentCacheOptions {
+  namespace: string
+  ttl: CacheTtls
+  maxEntries: number
+}
+
+export type CacheLookup<T> =
+  | { status: 'hit'; value: T | null }
+  | { status: 'error'; error: string }
+  | { status: 'miss' }
+
+export interface CacheStats {
+  namespace: string
+  size: number
+  maxEntries: number
+  hits: number
+  notFoundHits: number
+  errorHits: number
+  misses: number
+  writes: number
+  evictions: number
+  persistent: boolean
+}
+
+interface CacheEntry<T> {
+  key: string
+  namespace: string
+  kind: CacheEntryKind
+  value: T | null
+  error: string | null
+  storedAt: number
+  expiresAt: number
+  lastAccessedAt: number
+}
+
+// Error served from the cache until its error TTL runs out, so a failing provider isn't hammered
+export class CachedLookupError extends Error {
+  constructor(namespace: string, key: string, message: string) {
+    super(`${namespace} lookup for ${key} failed recently: ${message}`)
+    this.name = 'CachedLookupError'
+  }
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+// Open the shared database once; resolves to null where IndexedDB is unavailable
+// (private browsing, server rendering), in which case caches are memory-only
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+          store.createIndex('namespace', 'namespace')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn('⚠️ IndexedDB unavailable, identity cache is memory-only:', request.error)
+          resolve(null)
+        }
+      } catch (error) {
+        console.warn('⚠️ IndexedDB unavailable, identity cache is memory-only:', error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const caches = new Map<string, PersistentCache<unknown>>()
+
+export class PersistentCache<T> {
+  private readonly options: PersistentCacheOptions
+  private readonly entries = new Map<string, CacheEntry<T>>()
+  private hydration: Promise<void> | null = null
+  private persistent = false
+  private counters = { hits: 0, notFoundHits: 0, errorHits: 0, misses: 0, writes: 0, evictions: 0 }
+
+  constructor(options: PersistentCacheOptions) {
+    this.options = options
+    caches.set(options.namespace, this as PersistentCache<unknown>)
+  }
+
+  private storageKey(key: string): string {
+    return `${this.options.namespace}:${key}`
+  }
+
+  // Load this namespace from IndexedDB into memory once, dropping expired entries
+  private hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = (async () => {
+        const db = await openDatabase()
+        if (!db) return
+
+        try {
+          const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+          const stored = await requestToPromise(store.index('namespace').getAll(this.options.namespace)) as CacheEntry<T>[]
+          const now = Date.now()
+          const expired: string[] = []
+
+          for (const entry of stored) {
+            if (entry.expiresAt <= now) {
+              expired.push(entry.key)
+            } else if (!this.entries.has(entry.key)) {
+              this.entries.set(entry.key, entry)
+            }
+          }
+
+          this.persistent = true
+          this.deleteStored(expired)
+          this.evictIfFull()
+        } catch (error) {
+          console.warn(`⚠️ Could not load ${this.options.namespace} cache from IndexedDB:`, error)
+        }
+      })()
+    }
+    return this.hydration
+  }
+
+  private async writeStored(entry: CacheEntry<T>): Promise<void> {
+    const db = await openDatabase()
+    if (!db) return
+
+    try {
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry)
+    } catch (error) {
+      console.warn(`⚠️ Could not persist ${this.options.namespace} cache entry:`, error)
+    }
+  }
+
+  private async deleteStored(keys: string[]): Promise<void> {
+    const db = await openDatabase()
+    if (!db || keys.length === 0) return
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+      for (const key of keys) store.delete(key)
+    } catch (error) {
+      console.warn(`⚠️ Could not delete ${this.options.namespace} cache entries:`, error)
+    }
+  }
+
+  // Drop the least recently used entries once the namespace is over its limit
+  private evictIfFull(): void {
+    if (this.entries.size <= this.options.maxEntries) return
+
+    const target = Math.floor(this.options.maxEntries * (1 - EVICTION_RATIO))
+    const victims = [...this.entries.values()]
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)
+      .slice(0, this.entries.size - target)
+      .map(entry => entry.key)
+
+    for (const key of victims) this.entries.delete(key)
+    this.counters.evictions += victims.length
+    this.deleteStored(victims)
+  }
+
+  private async store(key: string, kind: CacheEntryKind, value: T | null, error: string | null): Promise<void> {
+    await this.hydrate()
+
+    const now = Date.now()
+    const ttl = kind === 'value' ? this.options.ttl.value : kind === 'not-found' ? this.options.ttl.notFound : this.options.ttl.error
+    const entry: CacheEntry<T> = {
+      key: this.storageKey(key),
+      namespace: this.options.namespace,
+      kind,
+      value,
+      error,
+      storedAt: now,
+      expiresAt: now + ttl,
+      lastAccessedAt: now
+    }
+
+    this.entries.set(entry.key, entry)
+    this.counters.writes++
+    this.evictIfFull()
+    this.writeStored(entry)
+  }
+
+  async get(key: string): Promise<CacheLookup<T>> {
+    await this.hydrate()
+
+    const entry = this.entries.get(this.storageKey(key))
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(entry.key)
+        this.deleteStored([entry.key])
+      }
+      this.counters.misses++
+      return { status: 'miss' }
+    }
+
+    entry.lastAccessedAt = Date.now()
+    if (entry.kind === 'error') {
+      this.counters.errorHits++
+      return { status: 'error', error: entry.error || 'Unknown error' }
+    }
+
+    if (entry.kind === 'not-found') this.counters.notFoundHits++
+    else this.counters.hits++
+    return { status: 'hit', value: entry.value }
+  }
+
+  // Store a result; null is cached as "not found" with the shorter not-found TTL
+  async set(key: string, value: T | null): Promise<void> {
+    await this.store(key, value === null ? 'not-found' : 'value', value, null)
+  }
+
+  async setError(key: string, error: unknown): Promise<void> {
+    await this.store(key, 'error', null, error instanceof Error ? error.message : String(error))
+  }
+
+  // Cached value, or run `load` and cache its result. A recently failed lookup rethrows
+  // as CachedLookupError until its error TTL expires; a failing `load` is cached and rethrown.
+  async getOrLoad(key: string, load: () => Promise<T | null>): Promise<T | null> {
+    const cached = await this.get(key)
+    if (cached.status === 'hit') return cached.value
+    if (cached.status === 'error') throw new CachedLookupError(this.options.namespace, key, cached.error)
+
+    try {
+      const value = await load()
+      await this.set(key, value)
+      return value
+    } catch (error) {
+      await this.setError(key, error)
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.hydrate()
+    this.entries.delete(this.storageKey(key))
+    this.deleteStored([this.storageKey(key)])
+  }
+
+  async clear(): Promise<void> {
+    await this.hydrate()
+    const keys = [...this.entries.keys()]
+    this.entries.clear()
+    await this.deleteStored(keys)
+  }
+
+  stats(): CacheStats {
+    return {
+      namespace: this.options.namespace,
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ...this.counters,
+      persistent: this.persistent
+    }
+  }
+
+  resetStats(): void {
+    this.counters = { hits: 0, notFoundHits: 0, errorHits: 0, misses: 0, writes: 0, evictions: 0 }
+  }
+}
+
+// Stats for every cache namespace, for the debug view
+export function getCacheStats(): CacheStats[] {
+  return [...caches.values()].map(cache => cache.stats())
+}
+
+export async function clearAllCaches(): Promise<void> {
+  await Promise.all([...caches.values()].map(cache => cache.clear()))
+}
+
+export function resetCacheStats(): void {
+  for (const cache of caches.values()) cache.resetStats()
+}
@@ -0,0 +1,34 @@
+import {
+  RATE_LIMIT_PATH,
+  SharedRateLimiter,
+  type RateLimitDecision,
+  type RateLimitStatus,
+  type RateLimitStore
+} from '@/core/rateLimit'
+
+async function rateLimitRequest<T>(init?: RequestInit): Promise<T> {
+  const response = await fetch(RATE_LIMIT_PATH, init)
+  if (!response.ok) {
+    throw new Error(`Rate limit error: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+// Browser store for the shared buckets in sql/rate_limits.sql, reached through the
+// rate-limit function (the buckets are service-role only)
+const functionRateLimitStore: RateLimitStore = {
+  take(provider, tokens) {
+    return rateLimitRequest<RateLimitDecision>({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider, tokens })
+    })
+  },
+
+  status() {
+    return rateLimitRequest<RateLimitStatus[]>()
+  }
+}
+
+// Shared by every tab and the server functions, so Neynar and RPC budgets are global
+export const rateLimiter = new SharedRateLimiter(functionRateLimitStore)
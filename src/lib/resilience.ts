@@ -0,0 +1,242 @@
+// src/lib/resilience.ts
+// Shared retry / timeout / circuit-breaker wrapper for external providers
+
+export type ProviderName = 'ankr' | 'neynar' | 'ens' | 'basename' | 'rpc'
+
+// Retry and breaker tuning
+const RESILIENCE_CONFIG = {
+  RETRIES: 2, // Retries after the first attempt
+  TIMEOUT_MS: 10 * 1000,
+  BASE_DELAY_MS: 300,
+  MAX_DELAY_MS: 5 * 1000,
+  FAILURE_THRESHOLD: 5, // Consecutive failures before the breaker opens
+  COOLDOWN_MS: 30 * 1000, // How long an open breaker rejects calls before a trial call
+}
+
+export interface ResilienceOptions {
+  retries?: number
+  timeoutMs?: number
+  // Return false for errors that will not go away on retry (e.g. invalid input). Those are
+  // rethrown without counting against the breaker. Defaults to isUpstreamFailure.
+  isRetryable?: (error: unknown) => boolean
+}
+
+export interface ProviderHealth {
+  provider: ProviderName
+  state: 'closed' | 'open' | 'half-open'
+  consecutiveFailures: number
+  totalCalls: number
+  totalFailures: number
+  lastSuccessAt: number | null
+  lastFailureAt: number | null
+  lastError: string | null
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(provider: ProviderName, timeoutMs: number) {
+    super(`${provider} request timed out after ${timeoutMs}ms`)
+    this.name = 'ProviderTimeoutError'
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(provider: ProviderName, retryInMs: number) {
+    super(`${provider} is unavailable (circuit open, retry in ${Math.ceil(retryInMs / 1000)}s)`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+// HTTP response that should be retried (429 / 5xx)
+export class ProviderHttpError extends Error {
+  readonly status: number
+
+  constructor(provider: ProviderName, status: number, statusText: string) {
+    super(`${provider} API error: ${status} ${statusText}`)
+    this.name = 'ProviderHttpError'
+    this.status = status
+  }
+}
+
+interface BreakerState extends ProviderHealth {
+  openedAt: number | null
+  // Half-open lets a single trial call through; the rest are rejected until it settles
+  probeInFlight: boolean
+}
+
+const breakers = new Map<ProviderName, BreakerState>()
+
+function getBreaker(provider: ProviderName): BreakerState {
+  let breaker = breakers.get(provider)
+  if (!breaker) {
+    breaker = {
+      provider,
+      state: 'closed',
+      consecutiveFailures: 0,
+      totalCalls: 0,
+      totalFailures: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      openedAt: null,
+      probeInFlight: false,
+    }
+    breakers.set(provider, breaker)
+  }
+  return breaker
+}
+
+function recordSuccess(breaker: BreakerState): void {
+  breaker.state = 'closed'
+  breaker.consecutiveFailures = 0
+  breaker.openedAt = null
+  breaker.lastSuccessAt = Date.now()
+}
+
+function recordFailure(breaker: BreakerState, error: unknown): void {
+  breaker.totalFailures++
+  breaker.consecutiveFailures++
+  breaker.lastFailureAt = Date.now()
+  breaker.lastError = error instanceof Error ? error.message : String(error)
+
+  // A failed trial call re-opens immediately; otherwise open once the threshold is hit
+  if (breaker.state === 'half-open' || breaker.consecutiveFailures >= RESILIENCE_CONFIG.FAILURE_THRESHOLD) {
+    if (breaker.state !== 'open') {
+      console.warn(`🔌 Circuit opened for ${breaker.provider} after ${breaker.consecutiveFailures} failures`)
+    }
+    breaker.state = 'open'
+    breaker.openedAt = Date.now()
+  }
+}
+
+// Transport error names from viem (RPC calls), checked along the error's cause chain
+const UPSTREAM_ERROR_NAMES = new Set(['HttpRequestError', 'RpcRequestError', 'TimeoutError', 'WebSocketRequestError'])
+
+// Timeouts, 429/5xx responses and network or RPC transport errors: failures of the provider
+// itself. Reverts, bad input and parse errors aren't, and don't trip the breaker.
+export function isUpstreamFailure(error: unknown): boolean {
+  for (let current: unknown = error; current instanceof Error; current = (current as { cause?: unknown }).cause) {
+    if (current instanceof ProviderTimeoutError || current instanceof ProviderHttpError) return true
+    // fetch() rejects with a TypeError when the request never gets a response
+    if (current instanceof TypeError || UPSTREAM_ERROR_NAMES.has(current.name)) return true
+  }
+  return false
+}
+
+// Full-jitter exponential backoff
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(RESILIENCE_CONFIG.MAX_DELAY_MS, RESILIENCE_CONFIG.BASE_DELAY_MS * 2 ** attempt)
+  return Math.random() * cap
+}
+
+async function withTimeout<T>(
+  provider: ProviderName,
+  timeoutMs: number,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new ProviderTimeoutError(provider, timeoutMs))
+    }, timeoutMs)
+  })
+
+  try {
+    // Race as well as abort, so calls that ignore the signal still time out
+    return await Promise.race([call(controller.signal), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Run a provider call with timeout, retries with jittered backoff and a per-provider circuit breaker.
+// Errors are rethrown after the last attempt so callers can tell failures apart from "not found".
+export async function resilientCall<T>(
+  provider: ProviderName,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: ResilienceOptions = {}
+): Promise<T> {
+  const {
+    retries = RESILIENCE_CONFIG.RETRIES,
+    timeoutMs = RESILIENCE_CONFIG.TIMEOUT_MS,
+    isRetryable = isUpstreamFailure,
+  } = options
+  const breaker = getBreaker(provider)
+
+  if (breaker.state === 'open' && breaker.openedAt !== null) {
+    const elapsed = Date.now() - breaker.openedAt
+    if (elapsed < RESILIENCE_CONFIG.COOLDOWN_MS) {
+      throw new CircuitOpenError(provider, RESILIENCE_CONFIG.COOLDOWN_MS - elapsed)
+    }
+    breaker.state = 'half-open'
+  }
+
+  // Concurrent callers wait out the trial call instead of all hitting a recovering provider
+  if (breaker.state === 'half-open') {
+    if (breaker.probeInFlight) {
+      throw new CircuitOpenError(provider, timeoutMs)
+    }
+    breaker.probeInFlight = true
+  }
+  const isProbe = breaker.state === 'half-open'
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      breaker.totalCalls++
+      try {
+        const result = await withTimeout(provider, timeoutMs, call)
+        recordSuccess(breaker)
+        return result
+      } catch (error) {
+        // Errors that aren't the provider's fault are rethrown without touching the breaker
+        if (!isRetryable(error)) throw error
+        recordFailure(breaker, error)
+
+        const canRetry = attempt < retries && breaker.state !== 'open'
+        if (!canRetry) throw error
+
+        const delay = backoffDelay(attempt)
+        console.warn(`⏳ ${provider} call failed (attempt ${attempt + 1}/${retries + 1}), retrying in ${Math.round(delay)}ms`)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  } finally {
+    if (isProbe) breaker.probeInFlight = false
+  }
+}
+
+// fetch() through resilientCall. 429 and 5xx responses count as failures and are retried;
+// other responses (including 404) are returned for the caller to interpret.
+export async function resilientFetch(
+  provider: ProviderName,
+  url: string,
+  init: RequestInit = {},
+  options: ResilienceOptions = {}
+): Promise<Response> {
+  return resilientCall(provider, async (signal) => {
+    const response = await fetch(url, { ...init, signal })
+    if (response.status === 429 || response.status >= 500) {
+      throw new ProviderHttpError(provider, response.status, response.statusText)
+    }
+    return response
+  }, options)
+}
+
+// Snapshot of every provider's breaker state
+export function getProviderHealth(): Record<string, ProviderHealth> {
+  const health: Record<string, ProviderHealth> = {}
+  for (const [provider, { openedAt: _openedAt, probeInFlight: _probeInFlight, ...state }] of breakers) {
+    health[provider] = { ...state }
+  }
+  return health
+}
+
+// True unless the provider's breaker is currently open or its trial call is in flight
+export function isProviderAvailable(provider: ProviderName): boolean {
+  const breaker = breakers.get(provider)
+  if (breaker?.state === 'half-open') return !breaker.probeInFlight
+  if (!breaker || breaker.state !== 'open' || breaker.openedAt === null) return true
+  return Date.now() - breaker.openedAt >= RESILIENCE_CONFIG.COOLDOWN_MS
+}
@@ -47,6 +47,24 @@ export interface Database {
           updated_at?: string
         }
       }
+      tipn_staker_snapshots: {
+        Row: {
+          id: number
+          run_id: string
+          captured_at: string
+          address: string
+          amount: string
+          rank: number
+        }
+        Insert: {
+          run_id: string
+          captured_at?: string
+          address: string
+          amount: string
+          rank: number
+        }
+        Update: never
+      }
     }
   }
 }
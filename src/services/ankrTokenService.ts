@@ -1,5 +1,7 @@
 // src/services/ankrTokenService.ts
-import type { Staker } from '@/types'
+import type { HolderBalance, HolderPage } from '@/core/rankLookup'
+import { resilientFetch } from '@/lib/resilience'
+import type { HolderSource, Staker } from '@/types'
 
 // Base URL for Ankr Advanced API (public - no secrets)
 const ANKR_BASE_URL = 'https://rpc.ankr.com/multichain'
@@ -27,71 +29,159 @@ interface AnkrTokenHoldersResponse {
   }
 }
 
-// Fetch top TIPN token holders from Ankr API
-export async function fetchTopTipnHolders(limit: number = 1000): Promise<Staker[]> {
-  console.log('🔍 Fetching top TIPN holders from Ankr API...')
-  
+interface AnkrAccountBalanceResponse {
+  result: {
+    assets: Array<{
+      contractAddress?: string
+      balanceRawInteger: string
+    }>
+    nextPageToken?: string
+  }
+}
+
+// POST a JSON-RPC request to the Ankr Advanced API
+async function ankrRequest<T>(method: string, params: Record<string, unknown>): Promise<T> {
   if (!ANKR_API_KEY) {
     throw new Error('VITE_ANKR_API_KEY environment variable is required')
   }
 
-  // Construct the full URL with API key (secure)
-  const ankrApiUrl = `${ANKR_BASE_URL}/${ANKR_API_KEY}`
-  
-  try {
-    const response = await fetch(ankrApiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        // No Authorization header needed - token is in URL
-      },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'ankr_getTokenHolders',
-        params: {
-          blockchain: 'base',
-          contractAddress: TIPN_STAKING_ADDRESS,
-          pageSize: Math.min(limit, 10000), // Ankr max is 10,000
-        },
-        id: 1,
-      }),
+  const response = await resilientFetch('ankr', `${ANKR_BASE_URL}/${ANKR_API_KEY}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      method,
+      params,
+      id: 1,
+    }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ankr API error: ${response.status} ${response.statusText}`)
+  }
+
+  return response.json()
+}
+
+// Ankr returns at most 10,000 holders per page
+const ANKR_MAX_PAGE_SIZE = 10000
+
+// TIPN holders from Ankr one page at a time, following nextPageToken (already sorted by balance).
+// Zero balances and the zero address are filtered out of each page.
+async function* fetchTipnHolderPages(pageSize = ANKR_MAX_PAGE_SIZE): AsyncGenerator<HolderPage> {
+  let pageToken: string | undefined
+
+  do {
+    const data = await ankrRequest<AnkrTokenHoldersResponse>('ankr_getTokenHolders', {
+      blockchain: 'base',
+      contractAddress: TIPN_STAKING_ADDRESS,
+      pageSize: Math.min(pageSize, ANKR_MAX_PAGE_SIZE),
+      pageToken,
     })
 
-    if (!response.ok) {
-      throw new Error(`Ankr API error: ${response.status} ${response.statusText}`)
+    if (!data.result?.holders) {
+      throw new Error('Invalid response format from Ankr API')
     }
 
-    const data: AnkrTokenHoldersResponse = await response.json()
-    
-    if (data.result?.holders) {
-      const holders = data.result.holders
-      console.log(`📊 Found ${holders.length} TIPN token holders`)
-
-      // Convert to our Staker format and sort by balance (already sorted by Ankr)
-      const stakers: Staker[] = holders
-        .filter(holder => {
-          // Filter out zero balances and invalid addresses
-          const balance = BigInt(holder.balanceRawInteger || '0')
-          return balance > 0n && holder.holderAddress !== '0x0000000000000000000000000000000000000000'
-        })
-        .slice(0, limit) // Take only the top N
-        .map((holder, index) => ({
+    yield {
+      holders: data.result.holders
+        .map(holder => ({
           address: holder.holderAddress.toLowerCase(),
-          amount: BigInt(holder.balanceRawInteger),
-          rank: index + 1,
+          amount: BigInt(holder.balanceRawInteger || '0'),
         }))
+        .filter(holder => holder.amount > 0n && holder.address !== '0x0000000000000000000000000000000000000000'),
+      holdersCount: data.result.holdersCount,
+    }
+    pageToken = data.result.nextPageToken || undefined
+  } while (pageToken)
+}
 
-      console.log(`✅ Processed ${stakers.length} valid TIPN stakers`)
-      return stakers
-    } else {
-      throw new Error('Invalid response format from Ankr API')
+// Fetch top TIPN token holders from Ankr API, paging until `limit` valid holders are
+// collected (pass Infinity for the full holder set)
+export async function fetchTopTipnHolders(limit: number = 1000): Promise<Staker[]> {
+  console.log('🔍 Fetching top TIPN holders from Ankr API...')
+  
+  try {
+    const holders: HolderBalance[] = []
+    let page = 0
+
+    for await (const { holders: pageHolders, holdersCount } of fetchTipnHolderPages(limit)) {
+      page++
+      holders.push(...pageHolders)
+      console.log(`📊 Page ${page}: ${holders.length} of ${holdersCount} TIPN token holders`)
+      if (holders.length >= limit) break
     }
+
+    // Convert to our Staker format (already sorted by balance by Ankr)
+    const stakers: Staker[] = holders
+      .slice(0, limit) // Take only the top N
+      .map((holder, index) => ({ ...holder, rank: index + 1 }))
+
+    console.log(`✅ Processed ${stakers.length} valid TIPN stakers`)
+    return stakers
   } catch (error) {
     console.error('❌ Failed to fetch TIPN holders from Ankr:', error)
     throw error
   }
 }
 
+// Fetch every TIPN holder (all pages)
+export async function fetchAllTipnHolders(): Promise<Staker[]> {
+  return fetchTopTipnHolders(Number.POSITIVE_INFINITY)
+}
+
+// Total number of TIPN staking token holders
+export async function fetchTipnHolderCount(): Promise<number> {
+  const data = await ankrRequest<AnkrTokenHoldersResponse>('ankr_getTokenHolders', {
+    blockchain: 'base',
+    contractAddress: TIPN_STAKING_ADDRESS,
+    pageSize: 1,
+  })
+
+  if (typeof data.result?.holdersCount !== 'number') {
+    throw new Error('Invalid response format from Ankr API')
+  }
+  return data.result.holdersCount
+}
+
+// Staked TIPN balance for a single address
+export async function fetchTipnBalance(address: string): Promise<bigint> {
+  let pageToken: string | undefined
+
+  do {
+    const data = await ankrRequest<AnkrAccountBalanceResponse>('ankr_getAccountBalance', {
+      blockchain: 'base',
+      walletAddress: address,
+      onlyWhitelisted: false,
+      pageToken,
+    })
+
+    if (!data.result?.assets) {
+      throw new Error('Invalid response format from Ankr API')
+    }
+
+    const asset = data.result.assets.find(
+      asset => asset.contractAddress?.toLowerCase() === TIPN_STAKING_ADDRESS
+    )
+    if (asset) return BigInt(asset.balanceRawInteger)
+
+    pageToken = data.result.nextPageToken || undefined
+  } while (pageToken)
+
+  return 0n
+}
+
+export const ankrHolderSource: HolderSource = {
+  name: 'ankr',
+  fetchTopHolders: fetchTopTipnHolders,
+  fetchAllHolders: fetchAllTipnHolders,
+  fetchBalance: fetchTipnBalance,
+  fetchHolderCount: fetchTipnHolderCount,
+  fetchHolderPages: () => fetchTipnHolderPages(),
+}
+
 // Test function to verify API connectivity
 export async function testAnkrConnection(): Promise<boolean> {
   try {
@@ -1,59 +1,20 @@
 // src/services/cachedIdentityService.ts - Updated for unified tipn_stakers table
 import { supabase } from '@/lib/supabase'
-import { getFarcasterUserByAddress } from '@/utils/farcaster'
-import { resolveName } from '@/utils/ens'
+import { IDENTITY_PRIORITY, clientIdentityResolvers } from '@/utils/identity'
+import { batchResolveName } from '@/utils/ens'
+import { rateLimiter } from '@/lib/rateLimiter'
+import { buildIdentity, resolveIdentity, type Identity } from '@/core/identity'
+import { RateLimitExceededError, type RateLimitStatus } from '@/core/rateLimit'
 
-// Rate limiting configuration for Neynar paid plan
+// Provider budgets are global token buckets (sql/rate_limits.sql, see @/lib/rateLimiter)
 const RATE_LIMIT_CONFIG = {
-  // Neynar paid plan: Much higher limits
-  MAX_REQUESTS_PER_HOUR: 100, // Increased from 10
-  MAX_BATCH_SIZE: 20, // Increased from 5
-  DELAY_BETWEEN_REQUESTS: 500, // Reduced from 2000ms to 500ms
+  // Addresses resolved concurrently; their Farcaster lookups share one bulk Neynar request
+  MAX_BATCH_SIZE: 20,
   CACHE_EXPIRY_HOURS: 24 * 7, // Cache for 1 week
   // Supabase query batching limits
   SUPABASE_BATCH_SIZE: 100, // Maximum addresses per Supabase query
 }
 
-// Track API usage to respect rate limits
-class RateLimiter {
-  private requestTimes: number[] = []
-  
-  canMakeRequest(): boolean {
-    const now = Date.now()
-    const oneHourAgo = now - (60 * 60 * 1000)
-    
-    // Remove old requests
-    this.requestTimes = this.requestTimes.filter(time => time > oneHourAgo)
-    
-    return this.requestTimes.length < RATE_LIMIT_CONFIG.MAX_REQUESTS_PER_HOUR
-  }
-  
-  recordRequest(): void {
-    this.requestTimes.push(Date.now())
-  }
-  
-  getTimeUntilNextRequest(): number {
-    if (this.requestTimes.length === 0) return 0
-    
-    const oldestRequest = Math.min(...this.requestTimes)
-    const oneHourFromOldest = oldestRequest + (60 * 60 * 1000)
-    const now = Date.now()
-    
-    return Math.max(0, oneHourFromOldest - now)
-  }
-  
-  getRequestCount(): number {
-    const now = Date.now()
-    const oneHourAgo = now - (60 * 60 * 1000)
-    
-    // Remove old requests and return current count
-    this.requestTimes = this.requestTimes.filter(time => time > oneHourAgo)
-    return this.requestTimes.length
-  }
-}
-
-const rateLimiter = new RateLimiter()
-
 // Updated interface to match the unified tipn_stakers table
 export interface CachedIdentity {
   address: string
@@ -74,25 +35,15 @@ export interface CachedIdentity {
 }
 
 // Convert to display format
-export interface DisplayIdentity {
-  address: string
-  farcaster: {
-    fid: number
-    username: string
-    displayName: string
-    pfpUrl: string
-    bio: string
-    followerCount: number
-    followingCount: number
-  } | null
-  ens: string | null
-  basename: string | null
+export type DisplayIdentity = Identity<{
+  fid: number
+  username: string
   displayName: string
-  displayAvatar: string | null
-  profileUrl: string | null
-  hasVerifiedIdentity: boolean
-  identityType: 'farcaster' | 'ens' | 'basename' | 'address'
-}
+  pfpUrl: string
+  bio: string
+  followerCount: number
+  followingCount: number
+}>
 
 // Check if cached data is still fresh
 function isCacheExpired(lastUpdated: string): boolean {
@@ -164,85 +115,16 @@ export async function loadCachedIdentities(addresses: string[]): Promise<Map<str
   }
 }
 
-// Save identity to the unified tipn_stakers table
-async function saveCachedIdentity(identity: Partial<CachedIdentity>): Promise<void> {
-  try {
-    const updateData = {
-      fid: identity.fid,
-      farcaster_username: identity.farcaster_username,
-      farcaster_display_name: identity.farcaster_display_name,
-      farcaster_pfp_url: identity.farcaster_pfp_url,
-      farcaster_bio: identity.farcaster_bio,
-      farcaster_follower_count: identity.farcaster_follower_count || 0,
-      farcaster_following_count: identity.farcaster_following_count || 0,
-      ens_name: identity.ens_name,
-      basename: identity.basename,
-      has_verified_identity: identity.has_verified_identity || false,
-      identity_type: identity.identity_type || 'address',
-      display_name: identity.display_name,
-      profile_url: identity.profile_url,
-      identity_last_updated: new Date().toISOString()
-    }
-
-    const { error } = await supabase
-      .from('tipn_stakers')
-      .update(updateData)
-      .eq('address', identity.address)
-
-    if (error) throw error
-    
-  } catch (error) {
-    console.error(`Failed to cache identity for ${identity.address}:`, error)
-  }
-}
-
-// Fetch fresh identity data (respecting rate limits)
+// Fetch fresh identity data. Each provider lookup takes from the shared rate limit budget
+// and throws RateLimitExceededError once it's spent. The result isn't written back:
+// tipn_stakers identity columns are only written server-side by enrich-identities.
 async function fetchFreshIdentity(address: string): Promise<CachedIdentity> {
   console.log(`🔍 Fetching fresh identity for: ${address}`)
-  
-  // Check rate limit
-  if (!rateLimiter.canMakeRequest()) {
-    const waitTime = rateLimiter.getTimeUntilNextRequest()
-    console.warn(`⏰ Rate limit reached. Next request available in ${Math.ceil(waitTime / 1000 / 60)} minutes`)
-    throw new Error(`Rate limit reached. Please wait ${Math.ceil(waitTime / 1000 / 60)} minutes.`)
-  }
 
   try {
-    // Fetch both Farcaster and ENS data
-    const [farcasterUser, ensData] = await Promise.all([
-      getFarcasterUserByAddress(address).catch(() => null),
-      resolveName(address).catch(() => ({ ens: null, basename: null, display: null }))
-    ])
-    
-    // Record API usage
-    if (farcasterUser) {
-      rateLimiter.recordRequest()
-    }
-
-    // Determine display name and type
-    let displayName: string
-    let identityType: 'farcaster' | 'ens' | 'basename' | 'address'
-    let profileUrl: string | null = null
-    let hasVerifiedIdentity: boolean
-
-    if (farcasterUser) {
-      displayName = farcasterUser.displayName || `@${farcasterUser.username}`
-      identityType = 'farcaster'
-      profileUrl = `https://warpcast.com/${farcasterUser.username}`
-      hasVerifiedIdentity = true
-    } else if (ensData.basename) {
-      displayName = ensData.basename
-      identityType = 'basename'
-      hasVerifiedIdentity = true
-    } else if (ensData.ens) {
-      displayName = ensData.ens
-      identityType = 'ens'
-      hasVerifiedIdentity = true
-    } else {
-      displayName = `${address.slice(0, 6)}...${address.slice(-4)}`
-      identityType = 'address'
-      hasVerifiedIdentity = false
-    }
+    // Lookup failures propagate so a provider outage isn't cached as "no identity"
+    const identity = await resolveIdentity(address, clientIdentityResolvers, IDENTITY_PRIORITY)
+    const { farcaster: farcasterUser, displayName, identityType } = identity
 
     // Create cached identity record for unified table
     const cachedIdentity: CachedIdentity = {
@@ -254,45 +136,26 @@ async function fetchFreshIdentity(address: string): Promise<CachedIdentity> {
       farcaster_bio: farcasterUser?.bio || null,
       farcaster_follower_count: farcasterUser?.followerCount || 0,
       farcaster_following_count: farcasterUser?.followingCount || 0,
-      ens_name: ensData.ens,
-      basename: ensData.basename,
-      has_verified_identity: hasVerifiedIdentity,
+      ens_name: identity.ens,
+      basename: identity.basename,
+      has_verified_identity: identity.hasVerifiedIdentity,
       identity_type: identityType,
       display_name: displayName,
-      profile_url: profileUrl,
+      profile_url: identity.profileUrl,
       identity_last_updated: new Date().toISOString()
     }
 
-    // Save to unified table
-    await saveCachedIdentity(cachedIdentity)
-    
-    console.log(`✅ Fresh identity cached for ${address}: ${displayName} (${identityType})`)
+    console.log(`✅ Fresh identity for ${address}: ${displayName} (${identityType})`)
     return cachedIdentity
     
   } catch (error) {
-    console.error(`Failed to fetch fresh identity for ${address}:`, error)
-    
-    // Create fallback cache entry
-    const fallbackIdentity: CachedIdentity = {
-      address: address.toLowerCase(),
-      fid: null,
-      farcaster_username: null,
-      farcaster_display_name: null,
-      farcaster_pfp_url: null,
-      farcaster_bio: null,
-      farcaster_follower_count: 0,
-      farcaster_following_count: 0,
-      ens_name: null,
-      basename: null,
-      has_verified_identity: false,
-      identity_type: 'address',
-      display_name: `${address.slice(0, 6)}...${address.slice(-4)}`,
-      profile_url: null,
-      identity_last_updated: new Date().toISOString()
+    // Leave the cached row untouched - callers fall back to stale data
+    if (error instanceof RateLimitExceededError) {
+      console.warn(`⏰ ${error.message} (identity for ${address})`)
+    } else {
+      console.error(`Failed to fetch fresh identity for ${address}:`, error)
     }
-    
-    await saveCachedIdentity(fallbackIdentity)
-    return fallbackIdentity
+    throw error
   }
 }
 
@@ -309,38 +172,11 @@ function convertToDisplayIdentity(cached: CachedIdentity): DisplayIdentity {
     followingCount: cached.farcaster_following_count
   } : null
 
-  // Determine display name and type (priority: Farcaster → Basename → ENS → Address)
-  let displayName: string
-  let displayAvatar: string | null = null
-  let profileUrl: string | null = cached.profile_url
-  let identityType: DisplayIdentity['identityType']
-
-  if (farcaster) {
-    displayName = farcaster.displayName
-    displayAvatar = farcaster.pfpUrl
-    identityType = 'farcaster'
-  } else if (cached.basename) {
-    displayName = cached.basename
-    identityType = 'basename'
-  } else if (cached.ens_name) {
-    displayName = cached.ens_name
-    identityType = 'ens'
-  } else {
-    displayName = cached.display_name || `${cached.address.slice(0, 6)}...${cached.address.slice(-4)}`
-    identityType = 'address'
-  }
-
-  return {
-    address: cached.address,
+  return buildIdentity(cached.address, {
     farcaster,
     ens: cached.ens_name,
-    basename: cached.basename,
-    displayName,
-    displayAvatar,
-    profileUrl,
-    hasVerifiedIdentity: cached.has_verified_identity,
-    identityType: identityType as DisplayIdentity['identityType']
-  }
+    basename: cached.basename
+  }, IDENTITY_PRIORITY)
 }
 
 // Main function: Get identity with smart caching (now uses unified table)
@@ -360,29 +196,16 @@ export async function getIdentityWithCache(address: string): Promise<DisplayIden
     // Cache is expired or missing - fetch fresh data (if rate limits allow)
     console.log(`🔄 Cache expired or missing for ${address}`)
     
-    if (rateLimiter.canMakeRequest()) {
+    try {
       const freshIdentity = await fetchFreshIdentity(normalizedAddress)
       return convertToDisplayIdentity(freshIdentity)
-    } else {
-      // Rate limited - use stale cache if available
+    } catch (error) {
+      // Rate limited or a provider failed - use stale cache if available
       if (cachedIdentity) {
-        console.log(`⚠️ Rate limited, using stale cache for ${address}`)
+        console.log(`⚠️ Fresh lookup unavailable, using stale cache for ${address}`)
         return convertToDisplayIdentity(cachedIdentity)
       }
-      
-      // No cache and rate limited - return basic identity
-      console.log(`❌ No cache and rate limited for ${address}`)
-      return {
-        address: normalizedAddress,
-        farcaster: null,
-        ens: null,
-        basename: null,
-        displayName: `${address.slice(0, 6)}...${address.slice(-4)}`,
-        displayAvatar: null,
-        profileUrl: null,
-        hasVerifiedIdentity: false,
-        identityType: 'address'
-      }
+      throw error
     }
     
   } catch (error) {
@@ -436,14 +259,15 @@ export async function batchGetIdentitiesWithCache(addresses: string[]): Promise<
       results.set(address, convertToDisplayIdentity(cachedIdentity))
     })
     
-    // For expired/missing entries, fetch fresh data within rate limits
-    const maxFreshRequests = Math.min(
-      needsFresh.length,
-      RATE_LIMIT_CONFIG.MAX_REQUESTS_PER_HOUR - rateLimiter.getRequestCount()
-    )
+    // For expired/missing entries, fetch fresh data unless the shared Neynar budget was just
+    // found empty (lookups that hit the limit mid-batch fall back to stale cache below)
+    const maxFreshRequests = rateLimiter.isBlocked('neynar') ? 0 : needsFresh.length
     
     if (maxFreshRequests > 0) {
       console.log(`🔍 Fetching fresh data for ${maxFreshRequests} addresses`)
+
+      // One multicall pass warms the name cache for the per-address lookups below
+      await batchResolveName(needsFresh.slice(0, maxFreshRequests))
       
       // Process in small batches with delays
       for (let i = 0; i < maxFreshRequests; i += RATE_LIMIT_CONFIG.MAX_BATCH_SIZE) {
@@ -478,12 +302,6 @@ export async function batchGetIdentitiesWithCache(addresses: string[]): Promise<
         })
         
         await Promise.allSettled(batchPromises)
-        
-        // Delay between batches
-        if (i + RATE_LIMIT_CONFIG.MAX_BATCH_SIZE < maxFreshRequests) {
-          console.log('⏳ Waiting between batches...')
-          await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_CONFIG.DELAY_BETWEEN_REQUESTS))
-        }
       }
     }
     
@@ -537,100 +355,8 @@ export async function batchGetIdentitiesWithCache(addresses: string[]): Promise<
   }
 }
 
-// Force refresh specific addresses (within rate limits)
-export async function forceRefreshIdentities(addresses: string[]): Promise<number> {
-  const maxRequests = RATE_LIMIT_CONFIG.MAX_REQUESTS_PER_HOUR - rateLimiter.getRequestCount()
-  const toRefresh = addresses.slice(0, maxRequests)
-  
-  console.log(`🔄 Force refreshing ${toRefresh.length} identities (${maxRequests} allowed)`)
-  
-  let refreshed = 0
-  for (const address of toRefresh) {
-    try {
-      await fetchFreshIdentity(address.toLowerCase())
-      refreshed++
-      
-      // Delay between requests
-      if (refreshed < toRefresh.length) {
-        await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_CONFIG.DELAY_BETWEEN_REQUESTS))
-      }
-    } catch (error) {
-      console.warn(`Failed to refresh ${address}:`, error)
-    }
-  }
-  
-  return refreshed
-}
-
-// Get rate limit status
-export function getRateLimitStatus(): {
-  requestsUsed: number
-  requestsRemaining: number
-  timeUntilReset: number
-  canMakeRequest: boolean
-} {
-  const requestsUsed = rateLimiter.getRequestCount()
-  const requestsRemaining = RATE_LIMIT_CONFIG.MAX_REQUESTS_PER_HOUR - requestsUsed
-  const timeUntilReset = rateLimiter.getTimeUntilNextRequest()
-  
-  return {
-    requestsUsed,
-    requestsRemaining,
-    timeUntilReset,
-    canMakeRequest: rateLimiter.canMakeRequest()
-  }
+// Get rate limit status: global usage per provider, shared by all tabs and server functions
+// (only this tab's usage if the shared store can't be reached, see RateLimitStatus.shared)
+export async function getRateLimitStatus(): Promise<RateLimitStatus[]> {
+  return rateLimiter.status()
 }
-
-// NEW: Function to enrich existing stakers with identity data
-export async function enrichExistingStakers(limit: number = 10): Promise<number> {
-  console.log(`🔄 Starting to enrich ${limit} existing stakers with identity data...`)
-  
-  try {
-    // Get stakers that don't have identity data yet
-    const { data: stakersToEnrich, error } = await supabase
-      .from('tipn_stakers')
-      .select('address, rank')
-      .or('identity_last_updated.is.null,has_verified_identity.eq.false')
-      .order('rank', { ascending: true })
-      .limit(limit)
-
-    if (error) throw error
-    
-    if (!stakersToEnrich || stakersToEnrich.length === 0) {
-      console.log('✅ All stakers already have identity data')
-      return 0
-    }
-    
-    console.log(`🔍 Found ${stakersToEnrich.length} stakers to enrich`)
-    
-    let enriched = 0
-    for (const staker of stakersToEnrich) {
-      // Check rate limits
-      if (!rateLimiter.canMakeRequest()) {
-        console.log(`⏰ Rate limit reached. Enriched ${enriched} of ${stakersToEnrich.length} stakers.`)
-        break
-      }
-      
-      try {
-        console.log(`🔍 Enriching rank #${staker.rank}: ${staker.address}`)
-        await fetchFreshIdentity(staker.address)
-        enriched++
-        
-        // Delay between requests
-        if (enriched < stakersToEnrich.length) {
-          await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_CONFIG.DELAY_BETWEEN_REQUESTS))
-        }
-        
-      } catch (error) {
-        console.warn(`Failed to enrich ${staker.address}:`, error)
-      }
-    }
-    
-    console.log(`✅ Enriched ${enriched} stakers with identity data`)
-    return enriched
-    
-  } catch (error) {
-    console.error('Failed to enrich existing stakers:', error)
-    return 0
-  }
-}
\ No newline at end of file
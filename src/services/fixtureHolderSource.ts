@@ -0,0 +1,36 @@
+// src/services/fixtureHolderSource.ts
+import type { HolderPage } from '@/core/rankLookup'
+import fixture from '@/fixtures/holders.json'
+import type { HolderSource, Staker } from '@/types'
+
+// Static holder set for offline development and demos
+const FIXTURE_HOLDERS: Staker[] = fixture.holders
+  .map(holder => ({ address: holder.address.toLowerCase(), amount: BigInt(holder.balance) }))
+  .filter(holder => holder.amount > 0n)
+  .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0))
+  .map((holder, index) => ({ ...holder, rank: index + 1 }))
+
+export const fixtureHolderSource: HolderSource = {
+  name: 'fixture',
+
+  async fetchTopHolders(limit: number): Promise<Staker[]> {
+    return FIXTURE_HOLDERS.slice(0, limit)
+  },
+
+  async fetchAllHolders(): Promise<Staker[]> {
+    return FIXTURE_HOLDERS
+  },
+
+  async fetchBalance(address: string): Promise<bigint> {
+    const holder = FIXTURE_HOLDERS.find(holder => holder.address === address.toLowerCase())
+    return holder?.amount ?? 0n
+  },
+
+  async fetchHolderCount(): Promise<number> {
+    return FIXTURE_HOLDERS.length
+  },
+
+  async *fetchHolderPages(): AsyncGenerator<HolderPage> {
+    yield { holders: FIXTURE_HOLDERS, holdersCount: FIXTURE_HOLDERS.length }
+  },
+}
@@ -0,0 +1,75 @@
+// src/services/holderSource.ts
+import { ankrHolderSource } from '@/services/ankrTokenService'
+import { rpcHolderSource } from '@/services/rpcHolderSource'
+import { fixtureHolderSource } from '@/services/fixtureHolderSource'
+import { rankAgainstHolders, type HolderRank } from '@/core/rankLookup'
+import type { HolderSource, HolderSourceName, Staker } from '@/types'
+
+const HOLDER_SOURCES: Record<HolderSourceName, HolderSource> = {
+  ankr: ankrHolderSource,
+  rpc: rpcHolderSource,
+  fixture: fixtureHolderSource,
+}
+
+// Providers in priority order, e.g. VITE_HOLDER_SOURCE="ankr,rpc" (default: ankr)
+function getConfiguredSources(): HolderSource[] {
+  const configured = (import.meta.env.VITE_HOLDER_SOURCE || 'ankr')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+
+  const sources = configured.map(name => {
+    const source = HOLDER_SOURCES[name as HolderSourceName]
+    if (!source) {
+      throw new Error(`Unknown holder source "${name}" in VITE_HOLDER_SOURCE (expected ankr, rpc or fixture)`)
+    }
+    return source
+  })
+
+  return sources.length > 0 ? sources : [ankrHolderSource]
+}
+
+// Try each configured source in order, failing over to the next one on error
+async function withFailover<T>(operation: string, call: (source: HolderSource) => Promise<T>): Promise<T> {
+  const sources = getConfiguredSources()
+  let lastError: unknown
+
+  for (const source of sources) {
+    try {
+      return await call(source)
+    } catch (error) {
+      lastError = error
+      console.warn(`⚠️ Holder source "${source.name}" failed to ${operation}:`, error)
+    }
+  }
+
+  throw lastError
+}
+
+// Holder source backed by the configured providers, with failover
+// (pages can't fail over mid-iteration, so paged reads go through rankInHolderSet instead)
+export const holderSource: Omit<HolderSource, 'name' | 'fetchHolderPages'> = {
+  fetchTopHolders: (limit) => withFailover('fetch top holders', source => source.fetchTopHolders(limit)),
+  fetchAllHolders: () => withFailover('fetch all holders', source => source.fetchAllHolders()),
+  fetchBalance: (address) => withFailover('fetch balance', source => source.fetchBalance(address)),
+  fetchHolderCount: () => withFailover('fetch holder count', source => source.fetchHolderCount()),
+}
+
+// Exact rank of a balance, paging the configured provider only as far as the balance
+export async function rankInHolderSet(address: string, amount: bigint): Promise<HolderRank> {
+  return withFailover('rank a balance', source => rankAgainstHolders(address, amount, source.fetchHolderPages()))
+}
+
+// The full holder set is expensive to page through, so keep it around briefly
+const FULL_LIST_CACHE_MS = 5 * 60 * 1000 // 5 minutes
+let fullListCache: { holders: Staker[]; fetchedAt: number } | null = null
+
+export async function fetchAllHoldersCached(): Promise<Staker[]> {
+  if (fullListCache && Date.now() - fullListCache.fetchedAt < FULL_LIST_CACHE_MS) {
+    return fullListCache.holders
+  }
+
+  const holders = await holderSource.fetchAllHolders()
+  fullListCache = { holders, fetchedAt: Date.now() }
+  return holders
+}
@@ -0,0 +1,40 @@
+// src/services/notificationPreferencesService.ts
+import sdk from '@farcaster/frame-sdk'
+import { NOTIFICATION_PREFERENCES_PATH, type NotificationPreferences } from '@/core/notifications'
+
+export interface NotificationSettings {
+  preferences: NotificationPreferences
+  subscribed: boolean // A Farcaster client holds a notification token for the user
+}
+
+// Requests are authenticated with a Quick Auth token for the user's fid (mini app only)
+async function requestPreferences(init: RequestInit = {}): Promise<NotificationSettings> {
+  const { token } = await sdk.experimental.quickAuth()
+  const response = await fetch(NOTIFICATION_PREFERENCES_PATH, {
+    ...init,
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json', ...init.headers }
+  })
+
+  if (!response.ok) {
+    throw new Error(`Notification preferences error: ${response.status} ${response.statusText}`)
+  }
+  return response.json() as Promise<NotificationSettings>
+}
+
+export async function fetchNotificationSettings(): Promise<NotificationSettings> {
+  try {
+    return await requestPreferences()
+  } catch (error) {
+    console.error('❌ Failed to load notification preferences:', error)
+    throw error
+  }
+}
+
+export async function saveNotificationPreferences(update: Partial<NotificationPreferences>): Promise<NotificationSettings> {
+  try {
+    return await requestPreferences({ method: 'PUT', body: JSON.stringify(update) })
+  } catch (error) {
+    console.error('❌ Failed to save notification preferences:', error)
+    throw error
+  }
+}
@@ -0,0 +1,182 @@
+// src/services/rankHistoryService.ts
+import { supabase } from '@/lib/supabase'
+import type { DroppedStaker, StakerWithIdentity } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface SnapshotRun {
+  run_id: string
+  captured_at: string
+}
+
+interface SnapshotRank {
+  rank: number
+  amount: bigint
+}
+
+export interface RankMovement {
+  latestRunId: string | null
+  previous: Map<string, SnapshotRank> | null
+  dayAgo: Map<string, SnapshotRank> | null
+  weekAgo: Map<string, SnapshotRank> | null
+  droppedOut: DroppedStaker[]
+}
+
+const EMPTY_MOVEMENT: RankMovement = {
+  latestRunId: null,
+  previous: null,
+  dayAgo: null,
+  weekAgo: null,
+  droppedOut: []
+}
+
+// Latest two runs: the one backing tipn_stakers and the one before it
+async function fetchLatestRuns(): Promise<SnapshotRun[]> {
+  const { data, error } = await supabase
+    .from('tipn_snapshot_runs')
+    .select('run_id, captured_at')
+    .order('captured_at', { ascending: false })
+    .limit(2)
+
+  if (error) throw error
+  return data || []
+}
+
+// Most recent run captured at or before the given time
+async function fetchRunAtOrBefore(timestamp: Date): Promise<SnapshotRun | null> {
+  const { data, error } = await supabase
+    .from('tipn_snapshot_runs')
+    .select('run_id, captured_at')
+    .lte('captured_at', timestamp.toISOString())
+    .order('captured_at', { ascending: false })
+    .limit(1)
+
+  if (error) throw error
+  return data?.[0] || null
+}
+
+async function fetchRunRanks(runId: string): Promise<Map<string, SnapshotRank>> {
+  const { data, error } = await supabase
+    .from('tipn_staker_snapshots')
+    .select('address, amount, rank')
+    .eq('run_id', runId)
+    .order('rank', { ascending: true })
+    .limit(1000)
+
+  if (error) throw error
+
+  const ranks = new Map<string, SnapshotRank>()
+  for (const row of data || []) {
+    ranks.set(row.address, { rank: row.rank, amount: BigInt(row.amount) })
+  }
+  return ranks
+}
+
+// Load the reference snapshots used to compute rank movement
+export async function loadRankMovement(): Promise<RankMovement> {
+  try {
+    const [latestRuns, dayRun, weekRun] = await Promise.all([
+      fetchLatestRuns(),
+      fetchRunAtOrBefore(new Date(Date.now() - DAY_MS)),
+      fetchRunAtOrBefore(new Date(Date.now() - 7 * DAY_MS))
+    ])
+
+    if (latestRuns.length === 0) {
+      console.log('📭 No snapshots recorded yet')
+      return EMPTY_MOVEMENT
+    }
+
+    const [latestRun, previousRun] = latestRuns
+    const [latest, previous, dayAgo, weekAgo] = await Promise.all([
+      fetchRunRanks(latestRun.run_id),
+      previousRun ? fetchRunRanks(previousRun.run_id) : null,
+      dayRun ? fetchRunRanks(dayRun.run_id) : null,
+      weekRun ? fetchRunRanks(weekRun.run_id) : null
+    ])
+
+    const droppedOut: DroppedStaker[] = []
+    if (previous) {
+      for (const [address, { rank, amount }] of previous) {
+        if (!latest.has(address)) {
+          droppedOut.push({ address, amount, previousRank: rank })
+        }
+      }
+    }
+
+    console.log(`📈 Loaded rank history (${droppedOut.length} dropped out since previous snapshot)`)
+
+    return {
+      latestRunId: latestRun.run_id,
+      previous,
+      dayAgo,
+      weekAgo,
+      droppedOut: droppedOut.sort((a, b) => a.previousRank - b.previousRank)
+    }
+  } catch (error) {
+    console.warn('Failed to load rank history:', error)
+    return EMPTY_MOVEMENT
+  }
+}
+
+// Attach previousRank / rankDelta fields to the current ranking
+export function applyRankMovement(
+  stakers: StakerWithIdentity[],
+  movement: RankMovement
+): StakerWithIdentity[] {
+  const { previous, dayAgo, weekAgo } = movement
+  if (!previous && !dayAgo && !weekAgo) return stakers
+
+  return stakers.map(staker => {
+    const previousRank = previous?.get(staker.address)?.rank
+    const dayRank = dayAgo?.get(staker.address)?.rank
+    const weekRank = weekAgo?.get(staker.address)?.rank
+
+    return {
+      ...staker,
+      previousRank,
+      rankDelta: previousRank !== undefined ? previousRank - staker.rank : undefined,
+      rankDelta24h: dayRank !== undefined ? dayRank - staker.rank : undefined,
+      rankDelta7d: weekRank !== undefined ? weekRank - staker.rank : undefined,
+      isNew: previous !== null && previousRank === undefined
+    }
+  })
+}
+
+export interface StakerHistoryPoint {
+  capturedAt: Date
+  rank: number
+  amount: bigint
+}
+
+// Rank and amount history for a single address, oldest first
+export async function fetchStakerHistory(address: string, limit: number = 500): Promise<StakerHistoryPoint[]> {
+  const { data, error } = await supabase
+    .from('tipn_staker_snapshots')
+    .select('captured_at, amount, rank')
+    .eq('address', address.toLowerCase())
+    .order('captured_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+
+  return (data || [])
+    .map(row => ({
+      capturedAt: new Date(row.captured_at),
+      rank: row.rank,
+      amount: BigInt(row.amount)
+    }))
+    .reverse()
+}
+
+// First snapshot an address appeared in
+export async function fetchFirstSeen(address: string): Promise<Date | null> {
+  const { data, error } = await supabase
+    .from('tipn_staker_snapshots')
+    .select('captured_at')
+    .eq('address', address.toLowerCase())
+    .order('captured_at', { ascending: true })
+    .limit(1)
+
+  if (error) throw error
+  return data?.[0] ? new Date(data[0].captured_at) : null
+}
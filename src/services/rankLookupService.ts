@@ -0,0 +1,30 @@
+// src/services/rankLookupService.ts
+import { rankInHolderSet } from '@/services/holderSource'
+import { rpcHolderSource } from '@/services/rpcHolderSource'
+import type { RankLookup } from '@/types'
+
+// Look up an address's exact rank: staked balance is read on-chain (balanceOf) so it is
+// current even if the holder list lags, then ranked against the holder pages down to it
+export async function lookupAddressRank(address: string): Promise<RankLookup> {
+  const normalized = address.toLowerCase()
+  console.log(`🔍 Looking up rank for ${normalized}...`)
+
+  try {
+    const amount = await rpcHolderSource.fetchBalance(normalized)
+    const lookup: RankLookup = { address: normalized, amount, ...await rankInHolderSet(normalized, amount) }
+    console.log(`✅ ${normalized} is ranked ${lookup.rank ?? 'unranked'} of ${lookup.totalHolders}`)
+    return lookup
+  } catch (error) {
+    console.error(`❌ Rank lookup failed for ${normalized}:`, error)
+    throw error
+  }
+}
+
+// Best rank across several addresses (e.g. a Farcaster user's verified wallets)
+export async function lookupBestRank(addresses: string[]): Promise<RankLookup | null> {
+  const lookups = await Promise.all(addresses.map(lookupAddressRank))
+  const ranked = lookups.filter(lookup => lookup.rank !== null)
+  if (ranked.length === 0) return null
+
+  return ranked.reduce((best, lookup) => (lookup.rank as number) < (best.rank as number) ? lookup : best)
+}
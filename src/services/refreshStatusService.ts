@@ -0,0 +1,61 @@
+// src/services/refreshStatusService.ts
+import type { RefreshRun, RefreshStatus } from '@/types'
+
+const REFRESH_STATUS_URL = '/.netlify/functions/refresh-status'
+
+// refresh_runs row as returned by the refresh-status function
+interface RefreshRunRow {
+  id: string
+  kind: RefreshRun['kind']
+  trigger: RefreshRun['trigger']
+  source: string
+  status: RefreshRun['status']
+  started_at: string
+  finished_at: string | null
+  block_number: number | string | null
+  holder_count: number | null
+  enriched_count: number | null
+  error_count: number | null
+  error: string | null
+}
+
+function toRefreshRun(row: RefreshRunRow | null): RefreshRun | null {
+  if (!row) return null
+
+  return {
+    id: row.id,
+    kind: row.kind,
+    trigger: row.trigger,
+    source: row.source,
+    status: row.status,
+    startedAt: new Date(row.started_at),
+    finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+    blockNumber: row.block_number !== null ? BigInt(row.block_number) : null,
+    holderCount: row.holder_count,
+    enrichedCount: row.enriched_count,
+    errorCount: row.error_count || 0,
+    error: row.error
+  }
+}
+
+// When and at which block the leaderboard data was last refreshed
+export async function fetchRefreshStatus(): Promise<RefreshStatus> {
+  try {
+    const response = await fetch(REFRESH_STATUS_URL)
+    if (!response.ok) {
+      throw new Error(`Refresh status error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return {
+      dataAsOf: data.dataAsOf ? new Date(data.dataAsOf) : null,
+      blockNumber: data.blockNumber !== null ? BigInt(data.blockNumber) : null,
+      isStale: data.isStale,
+      latestRefresh: toRefreshRun(data.latestRefresh),
+      latestEnrichment: toRefreshRun(data.latestEnrichment)
+    }
+  } catch (error) {
+    console.error('❌ Failed to fetch refresh status:', error)
+    throw error
+  }
+}
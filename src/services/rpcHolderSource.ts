@@ -0,0 +1,89 @@
+// src/services/rpcHolderSource.ts
+import { TIPN_CONFIG, TIPN_STAKING_ABI } from '@/config/blockchain'
+import type { HolderPage } from '@/core/rankLookup'
+import { resilientCall } from '@/lib/resilience'
+import { baseRpcClient, loadIndexedBalances } from '@/services/stakingIndexer'
+import type { HolderSource, Staker } from '@/types'
+
+const MULTICALL_BATCH_SIZE = 500
+const SCAN_CACHE_MS = 60 * 1000 // 1 minute
+
+let lastScan: { holders: Staker[]; scannedAt: number } | null = null
+
+// Read balanceOf for many addresses through multicall3
+export async function multicallBalances(addresses: string[]): Promise<Map<string, bigint>> {
+  const balances = new Map<string, bigint>()
+
+  for (let i = 0; i < addresses.length; i += MULTICALL_BATCH_SIZE) {
+    const batch = addresses.slice(i, i + MULTICALL_BATCH_SIZE)
+    const results = await resilientCall('rpc', () => baseRpcClient.multicall({
+      contracts: batch.map(address => ({
+        address: TIPN_CONFIG.stakingAddress,
+        abi: TIPN_STAKING_ABI,
+        functionName: 'balanceOf' as const,
+        args: [address as `0x${string}`] as const,
+      })),
+      allowFailure: false,
+    }))
+
+    batch.forEach((address, index) => balances.set(address, results[index]))
+  }
+
+  return balances
+}
+
+// Discover holders from the indexed Transfer-log balances, then read exact current balances on-chain
+async function scanHolders(): Promise<Staker[]> {
+  if (lastScan && Date.now() - lastScan.scannedAt < SCAN_CACHE_MS) {
+    return lastScan.holders
+  }
+
+  console.log('🔍 Scanning TIPN holders via RPC...')
+
+  const indexed = await loadIndexedBalances()
+  const candidates = [...indexed.entries()]
+    .filter(([, balance]) => balance > 0n)
+    .map(([address]) => address)
+
+  const balances = await multicallBalances(candidates)
+  const holders: Staker[] = [...balances.entries()]
+    .filter(([, balance]) => balance > 0n)
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0))
+    .map(([address, amount], index) => ({ address, amount, rank: index + 1 }))
+
+  console.log(`✅ RPC scan found ${holders.length} holders (${candidates.length} candidates)`)
+
+  lastScan = { holders, scannedAt: Date.now() }
+  return holders
+}
+
+export const rpcHolderSource: HolderSource = {
+  name: 'rpc',
+
+  async fetchTopHolders(limit: number): Promise<Staker[]> {
+    const holders = await scanHolders()
+    return holders.slice(0, limit)
+  },
+
+  fetchAllHolders: scanHolders,
+
+  async fetchBalance(address: string): Promise<bigint> {
+    return resilientCall('rpc', () => baseRpcClient.readContract({
+      address: TIPN_CONFIG.stakingAddress,
+      abi: TIPN_STAKING_ABI,
+      functionName: 'balanceOf',
+      args: [address as `0x${string}`],
+    }))
+  },
+
+  async fetchHolderCount(): Promise<number> {
+    const holders = await scanHolders()
+    return holders.length
+  },
+
+  // The scan is all-or-nothing, so the whole (cached) holder set is a single page
+  async *fetchHolderPages(): AsyncGenerator<HolderPage> {
+    const holders = await scanHolders()
+    yield { holders, holdersCount: holders.length }
+  },
+}
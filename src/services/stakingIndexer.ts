@@ -0,0 +1,53 @@
+// src/services/stakingIndexer.ts
+// Read side of the staking indexer. Indexing runs server-side (netlify/functions/index-staking.ts);
+// the browser only reads the balances it persisted.
+import { createPublicClient, http, type PublicClient } from 'viem'
+import { supabase } from '@/lib/supabase'
+import { BASE_MAINNET } from '@/config/blockchain'
+import { BASE_RPC_URL } from '@/config/app'
+import type { Staker } from '@/types'
+
+export const baseRpcClient: PublicClient = createPublicClient({
+  chain: BASE_MAINNET,
+  transport: http(BASE_RPC_URL),
+})
+
+// Load persisted balances, paging through Supabase's 1000-row limit
+export async function loadIndexedBalances(): Promise<Map<string, bigint>> {
+  const balances = new Map<string, bigint>()
+  const pageSize = 1000
+
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('tipn_indexed_balances')
+      .select('address, balance::text')
+      .order('address', { ascending: true })
+      .range(offset, offset + pageSize - 1)
+
+    if (error) throw error
+    for (const row of data || []) {
+      balances.set(row.address, BigInt(row.balance))
+    }
+    if (!data || data.length < pageSize) break
+  }
+
+  return balances
+}
+
+// Top holders from the indexed balances, ranked by balance
+export async function fetchIndexedTopHolders(limit: number = 1000): Promise<Staker[]> {
+  const { data, error } = await supabase
+    .from('tipn_indexed_balances')
+    .select('address, balance::text')
+    .gt('balance', 0)
+    .order('balance', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+
+  return (data || []).map((row, index) => ({
+    address: row.address,
+    amount: BigInt(row.balance),
+    rank: index + 1,
+  }))
+}
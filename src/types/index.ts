@@ -1,3 +1,5 @@
+import type { HolderPage } from '@/core/rankLookup'
+
 // Basic staker interface (original)
 export interface Staker {
   address: string
@@ -5,6 +7,23 @@ export interface Staker {
   rank: number
 }
 
+// Provider of staking-token holder data (Ankr, direct RPC, static fixture)
+export type HolderSourceName = 'ankr' | 'rpc' | 'fixture'
+
+export interface HolderSource {
+  name: HolderSourceName
+  // Top N holders sorted by balance, ranked from 1
+  fetchTopHolders(limit: number): Promise<Staker[]>
+  // Every holder with a non-zero balance, ranked from 1
+  fetchAllHolders(): Promise<Staker[]>
+  // Staked balance of a single address, in wei
+  fetchBalance(address: string): Promise<bigint>
+  // Total number of addresses with a non-zero balance
+  fetchHolderCount(): Promise<number>
+  // Holders sorted by balance, one provider page at a time (read lazily, e.g. to rank one address)
+  fetchHolderPages(): AsyncIterable<HolderPage>
+}
+
 // Extended staker interface with identity data (NEW - replaces separate identity interfaces)
 export interface StakerWithIdentity {
   // Core staker data
@@ -14,6 +33,7 @@ export interface StakerWithIdentity {
   
   // Identity data (embedded in same object)
   displayName: string
+  farcasterFid?: number
   farcasterUsername?: string
   farcasterDisplayName?: string
   farcasterPfpUrl?: string
@@ -24,6 +44,66 @@ export interface StakerWithIdentity {
   hasVerifiedIdentity: boolean
   identityType: 'farcaster' | 'ens' | 'basename' | 'address'
   profileUrl?: string
+
+  // Rank movement (from tipn_staker_snapshots). Positive deltas mean the staker moved up.
+  previousRank?: number
+  rankDelta?: number
+  rankDelta24h?: number
+  rankDelta7d?: number
+  isNew?: boolean
+
+  // Verified wallet added from outside the listed stakers for identity totals; `rank` is then
+  // only a lower bound (the list's length + 1)
+  isUnlisted?: boolean
+}
+
+// Staker that was in the previous snapshot but is no longer in the top 1000
+export interface DroppedStaker {
+  address: string
+  amount: bigint
+  previousRank: number
+}
+
+// Exact position of an address in the full holder set (see rankLookupService)
+export interface RankLookup {
+  address: string
+  amount: bigint // On-chain staked balance, in wei
+  rank: number | null // null when the address has nothing staked
+  totalHolders: number
+  percentile: number | null // Share of holders ranked below this address, 0-100
+  distanceToNextRank: bigint | null // Wei needed to overtake the next holder up (null at rank 1)
+}
+
+// Stakers grouped by Farcaster identity (all verified wallets of one FID)
+export interface IdentityGroup {
+  key: string // `fid:<fid>`, or the wallet address for stakers without a Farcaster account
+  fid?: number
+  staker: StakerWithIdentity // The group's identity, with the summed amount and identity rank
+  wallets: StakerWithIdentity[] // Per-wallet breakdown, largest stake first
+}
+
+// Data freshness from the refresh-status function (server-side refresh run log)
+export interface RefreshRun {
+  id: string
+  kind: 'holders' | 'enrichment'
+  trigger: 'scheduled' | 'manual'
+  source: string
+  status: 'running' | 'succeeded' | 'failed'
+  startedAt: Date
+  finishedAt: Date | null
+  blockNumber: bigint | null
+  holderCount: number | null
+  enrichedCount: number | null
+  errorCount: number
+  error: string | null
+}
+
+export interface RefreshStatus {
+  dataAsOf: Date | null
+  blockNumber: bigint | null
+  isStale: boolean
+  latestRefresh: RefreshRun | null
+  latestEnrichment: RefreshRun | null
 }
 
 // Component prop interfaces
@@ -36,6 +116,10 @@ export interface PaginationProps {
 export interface LeaderboardRowProps {
   staker: StakerWithIdentity  // <-- This is the key line
   rank: number
+  // Group-by-identity view: number of wallets summed into this row and their breakdown toggle
+  walletCount?: number
+  isExpanded?: boolean
+  onToggleExpand?: () => void
 }
 
 export interface SearchBarProps {
@@ -47,6 +131,7 @@ export interface StatsGridProps {
   totalStakers: number
   totalStaked: bigint
   network: string
+  totalHolders?: number
 }
 
 // Legacy Farcaster types (still used by utils)
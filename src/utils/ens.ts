@@ -1,155 +1,202 @@
 // src/utils/ens.ts
-import { createPublicClient, http } from 'viem'
-import { base, mainnet } from 'viem/chains'
+import { resilientCall } from '@/lib/resilience'
+import { PersistentCache, type CacheLookup } from '@/lib/persistentCache'
+import { rateLimiter } from '@/lib/rateLimiter'
+import type { RateLimitedProvider } from '@/core/rateLimit'
+import {
+  batchReverseResolveBasenames,
+  batchReverseResolveEns,
+  createNameClients,
+  forwardResolveBasename,
+  reverseResolveBasename,
+  reverseResolveEns
+} from '@/core/names'
 
-// Cache for ENS lookups to avoid repeated calls
-const ensCache = new Map<string, string | null>()
+// Persistent caches for reverse lookups, keyed by lowercased address
+const NAME_CACHE_TTLS = {
+  value: 24 * 60 * 60 * 1000,
+  notFound: 12 * 60 * 60 * 1000,
+  error: 60 * 1000
+}
+const ensCache = new PersistentCache<string>({ namespace: 'ens', ttl: NAME_CACHE_TTLS, maxEntries: 5000 })
+const basenameCache = new PersistentCache<string>({ namespace: 'basename', ttl: NAME_CACHE_TTLS, maxEntries: 5000 })
 
 // Get Ankr RPC endpoint from environment
 const ANKR_API_KEY = import.meta.env.VITE_ANKR_API_KEY
 
 // Create clients for ENS resolution using your Ankr RPC with proper API key
-const mainnetClient = createPublicClient({
-  chain: mainnet,
-  transport: http(ANKR_API_KEY ? `https://rpc.ankr.com/eth/${ANKR_API_KEY}` : 'https://rpc.ankr.com/eth')
+const { mainnet: mainnetClient, base: baseClient } = createNameClients({
+  mainnet: ANKR_API_KEY ? `https://rpc.ankr.com/eth/${ANKR_API_KEY}` : 'https://rpc.ankr.com/eth',
+  base: ANKR_API_KEY ? `https://rpc.ankr.com/base/${ANKR_API_KEY}` : 'https://rpc.ankr.com/base',
 })
 
-const baseClient = createPublicClient({
-  chain: base,
-  transport: http(ANKR_API_KEY ? `https://rpc.ankr.com/base/${ANKR_API_KEY}` : 'https://rpc.ankr.com/base')
-})
+// Every RPC lookup takes a token from the shared budget before going through the circuit breaker
+async function limitedCall<T>(provider: RateLimitedProvider, call: () => Promise<T>): Promise<T> {
+  await rateLimiter.acquire(provider)
+  return resilientCall(provider, call)
+}
 
-// Check if address has an ENS name (mainnet)
+// Check if address has a forward-verified ENS name (mainnet). Throws if the lookup itself fails.
 export async function resolveENS(address: string): Promise<string | null> {
-  const cacheKey = `ens_${address.toLowerCase()}`
-  
-  // Check cache first
-  if (ensCache.has(cacheKey)) {
-    return ensCache.get(cacheKey) || null
-  }
-
   try {
-    console.log(`🔍 Resolving ENS for ${address}`)
-    
-    const ensName = await mainnetClient.getEnsName({
-      address: address as `0x${string}`,
-    })
+    return await ensCache.getOrLoad(address.toLowerCase(), async () => {
+      console.log(`🔍 Resolving ENS for ${address}`)
+      
+      const ensName = await limitedCall('ens', () => reverseResolveEns(mainnetClient, address))
 
-    console.log(`✅ ENS resolved: ${address} → ${ensName || 'none'}`)
-    
-    // Cache the result (including null)
-    ensCache.set(cacheKey, ensName)
-    return ensName
+      console.log(`✅ ENS resolved: ${address} → ${ensName || 'none'}`)
+      return ensName
+    })
   } catch (error) {
+    // Failures are cached only for the short error TTL, then retried
     console.warn(`❌ ENS lookup failed for ${address}:`, error)
-    ensCache.set(cacheKey, null)
-    return null
+    throw error
   }
 }
 
-// Check if address has a Base name (basename) - NOW ENABLED!
+// Check if address has a forward-verified Base name (basename). Throws if the lookup itself fails.
 export async function resolveBasename(address: string): Promise<string | null> {
-  const cacheKey = `base_${address.toLowerCase()}`
-  
-  // Check cache first
-  if (ensCache.has(cacheKey)) {
-    return ensCache.get(cacheKey) || null
-  }
-
   try {
-    console.log(`🔍 Resolving Basename for ${address}`)
-    
-    // Try to resolve basename using Base network
-    const baseName = await baseClient.getEnsName({
-      address: address as `0x${string}`,
+    return await basenameCache.getOrLoad(address.toLowerCase(), async () => {
+      console.log(`🔍 Resolving Basename for ${address}`)
+      
+      // Basenames live in the Base L2 resolver, not the mainnet ENS registry
+      const baseName = await limitedCall('basename', () => reverseResolveBasename(baseClient, address))
+      
+      console.log(`✅ Basename resolved: ${address} → ${baseName || 'none'}`)
+      return baseName
     })
-    
-    console.log(`✅ Basename resolved: ${address} → ${baseName || 'none'}`)
-    
-    // Cache the result (including null)
-    ensCache.set(cacheKey, baseName)
-    return baseName
   } catch (error) {
+    // Failures are cached only for the short error TTL, then retried
     console.warn(`❌ Basename lookup failed for ${address}:`, error)
-    ensCache.set(cacheKey, null)
-    return null
+    throw error
   }
 }
 
-// Combined function to check both ENS and Basename
+// Combined function to check both ENS and Basename (throws if either lookup fails)
 export async function resolveName(address: string): Promise<{
   ens: string | null
   basename: string | null
   display: string | null
 }> {
-  try {
-    // Run both lookups in parallel
-    const [ens, basename] = await Promise.all([
-      resolveENS(address),
-      resolveBasename(address)
-    ])
+  // Run both lookups in parallel
+  const [ens, basename] = await Promise.all([
+    resolveENS(address),
+    resolveBasename(address)
+  ])
 
-    // Prefer basename for Base network apps, fallback to ENS
-    const display = basename || ens
+  // Prefer basename for Base network apps, fallback to ENS
+  const display = basename || ens
 
-    return {
-      ens,
-      basename,
-      display
+  return {
+    ens,
+    basename,
+    display
+  }
+}
+
+// Forward-resolve an ENS name or Basename to an address
+export async function resolveNameToAddress(name: string): Promise<{
+  address: string | null
+  type: 'ens' | 'basename' | null
+}> {
+  const cleanName = name.trim().toLowerCase()
+
+  // Mainnet ENS first for plain .eth names
+  if (cleanName.endsWith('.eth') && !cleanName.endsWith('.base.eth')) {
+    try {
+      const address = await limitedCall('ens', () => mainnetClient.getEnsAddress({ name: cleanName }))
+      if (address) return { address: address.toLowerCase(), type: 'ens' }
+    } catch (error) {
+      console.warn(`❌ ENS forward lookup failed for ${cleanName}:`, error)
     }
+  }
+
+  // Basenames (.base.eth) resolve through the Base L2 resolver
+  try {
+    const address = await limitedCall('basename', () => forwardResolveBasename(baseClient, cleanName))
+    if (address) return { address: address.toLowerCase(), type: 'basename' }
   } catch (error) {
-    console.warn(`Name resolution failed for ${address}:`, error)
-    return {
-      ens: null,
-      basename: null,
-      display: null
-    }
+    console.warn(`❌ Basename forward lookup failed for ${cleanName}:`, error)
   }
+
+  return { address: null, type: null }
 }
 
-// Batch resolve names for multiple addresses (more efficient)
-export async function batchResolveName(addresses: string[]): Promise<Map<string, string | null>> {
-  const results = new Map<string, string | null>()
-  
-  // Process in batches to avoid overwhelming RPC
-  const batchSize = 3 // Smaller batches for reliability
-  for (let i = 0; i < addresses.length; i += batchSize) {
-    const batch = addresses.slice(i, i + batchSize)
-    
-    const batchPromises = batch.map(async (address) => {
-      try {
-        const { display } = await resolveName(address)
-        return { address, name: display }
-      } catch (error) {
-        console.warn(`Batch name resolution failed for ${address}:`, error)
-        return { address, name: null }
-      }
-    })
-    
-    const batchResults = await Promise.allSettled(batchPromises)
-    
-    batchResults.forEach((result, index) => {
-      const address = batch[index]
-      if (result.status === 'fulfilled') {
-        results.set(address, result.value.name)
-      } else {
-        results.set(address, null)
-      }
-    })
-    
-    // Longer delay between batches to respect rate limits
-    if (i + batchSize < addresses.length) {
-      console.log(`⏳ Waiting between ENS batches... (${i + batchSize}/${addresses.length})`)
-      await new Promise(resolve => setTimeout(resolve, 1000)) // 1 second delay
-    }
+// Batch resolve ENS names and Basenames via multicall (a few RPC calls for hundreds of
+// addresses). Results go into the same caches as resolveENS / resolveBasename; addresses
+// whose lookup failed are cached as errors and left out of the result.
+export async function batchResolveName(addresses: string[]): Promise<Map<string, {
+  ens: string | null
+  basename: string | null
+  display: string | null
+}>> {
+  const lookups = [...new Set(addresses.map(address => address.toLowerCase()))]
+  const ensNames = new Map<string, CacheLookup<string>>()
+  const basenames = new Map<string, CacheLookup<string>>()
+
+  for (const address of lookups) {
+    ensNames.set(address, await ensCache.get(address))
+    basenames.set(address, await basenameCache.get(address))
+  }
+
+  const missingEns = lookups.filter(address => ensNames.get(address)?.status === 'miss')
+  const missingBasenames = lookups.filter(address => basenames.get(address)?.status === 'miss')
+
+  if (missingEns.length > 0 || missingBasenames.length > 0) {
+    console.log(`🔍 Batch resolving names for ${Math.max(missingEns.length, missingBasenames.length)} addresses`)
+
+    await Promise.all([
+      batchLookupInto(ensNames, ensCache, missingEns, () => limitedCall('ens', () => batchReverseResolveEns(mainnetClient, missingEns))),
+      batchLookupInto(basenames, basenameCache, missingBasenames, () => limitedCall('basename', () => batchReverseResolveBasenames(baseClient, missingBasenames)))
+    ])
+  }
+
+  const results = new Map<string, { ens: string | null; basename: string | null; display: string | null }>()
+  for (const address of addresses) {
+    const ens = ensNames.get(address.toLowerCase())
+    const basename = basenames.get(address.toLowerCase())
+    if (ens?.status !== 'hit' || basename?.status !== 'hit') continue
+
+    results.set(address, { ens: ens.value, basename: basename.value, display: basename.value || ens.value })
   }
   
   return results
 }
 
+// Run one batch reverse lookup and record every address's outcome in `lookups` and the cache
+async function batchLookupInto(
+  lookups: Map<string, CacheLookup<string>>,
+  cache: PersistentCache<string>,
+  addresses: string[],
+  resolve: () => Promise<Map<string, string | null>>
+): Promise<void> {
+  if (addresses.length === 0) return
+
+  let names = new Map<string, string | null>()
+  let failure = 'Lookup failed'
+  try {
+    names = await resolve()
+  } catch (error) {
+    console.warn('❌ Batch name lookup failed:', error)
+    failure = error instanceof Error ? error.message : String(error)
+  }
+
+  for (const address of addresses) {
+    const name = names.get(address)
+    if (name === undefined) {
+      lookups.set(address, { status: 'error', error: failure })
+      await cache.setError(address, failure)
+    } else {
+      lookups.set(address, { status: 'hit', value: name })
+      await cache.set(address, name)
+    }
+  }
+}
+
 // Clear cache (useful for manual refresh)
-export function clearENSCache(): void {
-  ensCache.clear()
+export async function clearENSCache(): Promise<void> {
+  await Promise.all([ensCache.clear(), basenameCache.clear()])
   console.log('🗑️ ENS cache cleared')
 }
 
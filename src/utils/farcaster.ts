@@ -1,3 +1,8 @@
+import { resilientFetch } from '@/lib/resilience'
+import { PersistentCache } from '@/lib/persistentCache'
+import { rateLimiter } from '@/lib/rateLimiter'
+import { NEYNAR_API_URL, chunkForBulkLookup, fetchFarcasterUsersByAddress, toFarcasterProfile } from '@/core/farcaster'
+
 // Farcaster user data types
 export interface FarcasterUser {
   fid: number
@@ -10,81 +15,132 @@ export interface FarcasterUser {
   verifiedAddresses?: string[]
 }
 
-// Cache for Farcaster lookups
-const farcasterCache = new Map<string, FarcasterUser | null>()
+// Persistent cache for Farcaster lookups, keyed by lowercased address
+const farcasterCache = new PersistentCache<FarcasterUser>({
+  namespace: 'farcaster',
+  ttl: {
+    value: 24 * 60 * 60 * 1000,
+    notFound: 6 * 60 * 60 * 1000, // Addresses get verified on Farcaster, so recheck sooner
+    error: 2 * 60 * 1000
+  },
+  maxEntries: 5000
+})
 
 // Environment variable for Neynar API
 const NEYNAR_API_KEY = import.meta.env?.VITE_NEYNAR_API_KEY
 
-// Neynar API endpoints
-const NEYNAR_BASE_URL = 'https://api.neynar.com/v2'
+function neynarHeaders(): HeadersInit {
+  return {
+    'accept': 'application/json',
+    'api_key': NEYNAR_API_KEY,
+  }
+}
+
+// One bulk-by-address request through the Neynar circuit breaker, costing one token
+// of the shared Neynar budget however many addresses it carries
+async function fetchUsersChunk(addresses: string[]): Promise<Map<string, FarcasterUser | null>> {
+  await rateLimiter.acquire('neynar')
+  return fetchFarcasterUsersByAddress(
+    addresses,
+    NEYNAR_API_KEY,
+    (url, init) => resilientFetch('neynar', url, init)
+  )
+}
+
+// Single-address lookups started in the same tick are coalesced into bulk requests,
+// so resolving a page of identities costs one Neynar call instead of one per address
+interface PendingLookup {
+  resolve: (user: FarcasterUser | null) => void
+  reject: (error: unknown) => void
+}
+
+const pendingLookups = new Map<string, PendingLookup[]>()
+let flushScheduled = false
+
+async function flushPendingLookups(): Promise<void> {
+  flushScheduled = false
+  const batch = new Map(pendingLookups)
+  pendingLookups.clear()
+
+  for (const chunk of chunkForBulkLookup([...batch.keys()])) {
+    try {
+      const users = await fetchUsersChunk(chunk)
+      for (const address of chunk) {
+        for (const lookup of batch.get(address) || []) lookup.resolve(users.get(address) ?? null)
+      }
+    } catch (error) {
+      for (const address of chunk) {
+        for (const lookup of batch.get(address) || []) lookup.reject(error)
+      }
+    }
+  }
+}
+
+function queueLookup(address: string): Promise<FarcasterUser | null> {
+  return new Promise((resolve, reject) => {
+    pendingLookups.set(address, [...(pendingLookups.get(address) || []), { resolve, reject }])
+    if (!flushScheduled) {
+      flushScheduled = true
+      setTimeout(flushPendingLookups, 0)
+    }
+  })
+}
 
-// Get Farcaster user by verified address
+// Get Farcaster user by verified address.
+// Returns null when the address has no Farcaster account; throws if Neynar is unavailable
+// (failures are cached only for the short error TTL, then retried).
 export async function getFarcasterUserByAddress(address: string): Promise<FarcasterUser | null> {
-  const cacheKey = `fc_${address.toLowerCase()}`
-  
-  // Check cache first
-  if (farcasterCache.has(cacheKey)) {
-    return farcasterCache.get(cacheKey) || null
+  const normalizedAddress = address.toLowerCase()
+
+  if (!NEYNAR_API_KEY) {
+    console.warn('VITE_NEYNAR_API_KEY not set - Farcaster lookups disabled')
+    return null
+  }
+
+  try {
+    return await farcasterCache.getOrLoad(normalizedAddress, () => queueLookup(normalizedAddress))
+  } catch (error) {
+    console.warn(`Farcaster lookup failed for ${address}:`, error)
+    throw error
   }
+}
+
+// Get Farcaster user by username (e.g. "dwr" or "@dwr").
+// Returns null when no such user exists; throws if Neynar is unavailable.
+export async function getFarcasterUserByUsername(username: string): Promise<FarcasterUser | null> {
+  const cleanUsername = username.trim().toLowerCase().replace(/^@/, '')
 
   if (!NEYNAR_API_KEY) {
     console.warn('VITE_NEYNAR_API_KEY not set - Farcaster lookups disabled')
-    farcasterCache.set(cacheKey, null)
     return null
   }
 
   try {
-    // Use Neynar API to find user by verified address
-    const response = await fetch(
-      `${NEYNAR_BASE_URL}/farcaster/user/bulk-by-address?addresses=${address}`,
-      {
-        headers: {
-          'accept': 'application/json',
-          'api_key': NEYNAR_API_KEY,
-        },
-      }
+    await rateLimiter.acquire('neynar')
+    const response = await resilientFetch(
+      'neynar',
+      `${NEYNAR_API_URL}/farcaster/user/by_username?username=${encodeURIComponent(cleanUsername)}`,
+      { headers: neynarHeaders() }
     )
 
-    if (!response.ok) {
-      throw new Error(`Neynar API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-    
-    // Check if we found a user for this address
-    const addressData = data[address.toLowerCase()]
-    if (!addressData || addressData.length === 0) {
-      farcasterCache.set(cacheKey, null)
+    if (response.status === 404) {
       return null
     }
 
-    // Get the first user (primary account)
-    const userData = addressData[0]
-    
-    const farcasterUser: FarcasterUser = {
-      fid: userData.fid,
-      username: userData.username,
-      displayName: userData.display_name || userData.username,
-      pfpUrl: userData.pfp_url || '',
-      bio: userData.profile?.bio?.text || '',
-      followerCount: userData.follower_count || 0,
-      followingCount: userData.following_count || 0,
-      verifiedAddresses: userData.verified_addresses?.eth_addresses || []
+    if (!response.ok) {
+      throw new Error(`Neynar API error: ${response.status}`)
     }
 
-    // Cache the result
-    farcasterCache.set(cacheKey, farcasterUser)
-    return farcasterUser
-
+    const data = await response.json()
+    return data.user ? toFarcasterProfile(data.user) : null
   } catch (error) {
-    console.warn(`Farcaster lookup failed for ${address}:`, error)
-    farcasterCache.set(cacheKey, null)
-    return null
+    console.warn(`Farcaster username lookup failed for ${cleanUsername}:`, error)
+    throw error
   }
 }
 
-// Batch lookup for multiple addresses (more efficient)
+// Batch lookup for multiple addresses, up to NEYNAR_BULK_ADDRESS_LIMIT per request.
+// Addresses in a failed request come back as null and are cached as errors.
 export async function batchGetFarcasterUsers(addresses: string[]): Promise<Map<string, FarcasterUser | null>> {
   const results = new Map<string, FarcasterUser | null>()
   
@@ -94,86 +150,45 @@ export async function batchGetFarcasterUsers(addresses: string[]): Promise<Map<s
     return results
   }
 
-  // Process in batches of 20 addresses (Neynar API limit)
-  const batchSize = 20
-  
-  try {
-    for (let i = 0; i < addresses.length; i += batchSize) {
-      const batch = addresses.slice(i, i + batchSize)
-      const addressParam = batch.join(',')
-      
-      const response = await fetch(
-        `${NEYNAR_BASE_URL}/farcaster/user/bulk-by-address?addresses=${addressParam}`,
-        {
-          headers: {
-            'accept': 'application/json',
-            'api_key': NEYNAR_API_KEY,
-          },
-        }
-      )
-
-      if (response.ok) {
-        const data = await response.json()
-        
-        // Process each address in the batch
-        batch.forEach(address => {
-          const addressData = data[address.toLowerCase()]
-          
-          if (addressData && addressData.length > 0) {
-            const userData = addressData[0]
-            const farcasterUser: FarcasterUser = {
-              fid: userData.fid,
-              username: userData.username,
-              displayName: userData.display_name || userData.username,
-              pfpUrl: userData.pfp_url || '',
-              bio: userData.profile?.bio?.text || '',
-              followerCount: userData.follower_count || 0,
-              followingCount: userData.following_count || 0,
-              verifiedAddresses: userData.verified_addresses?.eth_addresses || []
-            }
-            
-            results.set(address, farcasterUser)
-            farcasterCache.set(`fc_${address.toLowerCase()}`, farcasterUser)
-          } else {
-            results.set(address, null)
-            farcasterCache.set(`fc_${address.toLowerCase()}`, null)
-          }
-        })
-      } else {
-        // If batch fails, mark all as null
-        batch.forEach(address => {
-          results.set(address, null)
-          farcasterCache.set(`fc_${address.toLowerCase()}`, null)
-        })
-      }
-      
-      // Rate limit: small delay between batches
-      if (i + batchSize < addresses.length) {
-        await new Promise(resolve => setTimeout(resolve, 200))
-      }
+  // Serve cached addresses first and only request the rest
+  const uncached: string[] = []
+  for (const address of addresses) {
+    const cached = await farcasterCache.get(address.toLowerCase())
+    if (cached.status === 'miss') {
+      uncached.push(address)
+    } else {
+      // Recently failed addresses aren't requested again until their error TTL expires
+      results.set(address, cached.status === 'hit' ? cached.value : null)
     }
-  } catch (error) {
-    console.error('Batch Farcaster lookup failed:', error)
-    // Mark remaining addresses as null
-    addresses.forEach(address => {
-      if (!results.has(address)) {
+  }
+
+  for (const batch of chunkForBulkLookup(uncached)) {
+    try {
+      const users = await fetchUsersChunk(batch)
+      for (const address of batch) {
+        const user = users.get(address.toLowerCase()) ?? null
+        results.set(address, user)
+        await farcasterCache.set(address.toLowerCase(), user)
+      }
+    } catch (error) {
+      console.error('Batch Farcaster lookup failed:', error)
+      for (const address of batch) {
         results.set(address, null)
+        await farcasterCache.setError(address.toLowerCase(), error)
       }
-    })
+    }
   }
 
   return results
 }
 
 // Clear Farcaster cache
-export function clearFarcasterCache(): void {
-  farcasterCache.clear()
+export async function clearFarcasterCache(): Promise<void> {
+  await farcasterCache.clear()
 }
 
-// Helper to get Farcaster profile URL
-export function getFarcasterProfileUrl(username: string): string {
-  return `https://warpcast.com/${username}`
-}
+// Profile URLs come from the shared identity core so the app and functions agree
+export { getFarcasterProfileUrl } from '@/core/identity'
 
 // Helper to get optimized PFP URL
 export function getOptimizedPfpUrl(pfpUrl: string, size: number = 32): string {
@@ -1,85 +1,43 @@
-import { getFarcasterUserByAddress, batchGetFarcasterUsers, type FarcasterUser } from './farcaster'
-import { resolveName } from './ens'
-
-// Combined identity information
-export interface UserIdentity {
-  address: string
-  farcaster: FarcasterUser | null
-  ens: string | null
-  basename: string | null
-  
-  // Computed display properties
-  displayName: string
-  displayAvatar: string | null
-  profileUrl: string | null
-  hasVerifiedIdentity: boolean
-  identityType: 'farcaster' | 'ens' | 'basename' | 'address'
+import { isAddress } from 'viem'
+import { getFarcasterUserByAddress, getFarcasterUserByUsername, batchGetFarcasterUsers, type FarcasterUser } from './farcaster'
+import { batchResolveName, resolveBasename, resolveENS, resolveNameToAddress } from './ens'
+import { buildIdentity, parseIdentityPriority, resolveIdentity, type Identity, type IdentityResolvers } from '@/core/identity'
+import { PersistentCache } from '@/lib/persistentCache'
+import { multicallBalances } from '@/services/rpcHolderSource'
+import type { IdentityGroup, StakerWithIdentity } from '@/types'
+
+// Combined identity information (display properties are picked by the shared core pipeline)
+export type UserIdentity = Identity<FarcasterUser>
+
+// Display priority, e.g. VITE_IDENTITY_PRIORITY=basename,farcaster,ens (default Farcaster → Basename → ENS)
+export const IDENTITY_PRIORITY = parseIdentityPriority(import.meta.env.VITE_IDENTITY_PRIORITY)
+
+// Client-side lookups for the core pipeline; each has its own per-source cache
+export const clientIdentityResolvers: IdentityResolvers<FarcasterUser> = {
+  farcaster: getFarcasterUserByAddress,
+  ens: resolveENS,
+  basename: resolveBasename
 }
 
-// Cache for combined identity lookups
-const identityCache = new Map<string, UserIdentity>()
-
-// Priority order: Farcaster → Basename → ENS → Address
+// Persistent cache for combined identity lookups. Identities are always found (an address
+// without names is an 'address' identity), so only the value and error TTLs apply.
+const identityCache = new PersistentCache<UserIdentity>({
+  namespace: 'identity',
+  ttl: {
+    value: 6 * 60 * 60 * 1000,
+    notFound: 6 * 60 * 60 * 1000,
+    error: 60 * 1000
+  },
+  maxEntries: 3000
+})
+
+// Resolve an address to its display identity. Throws if any lookup fails.
 export async function resolveUserIdentity(address: string): Promise<UserIdentity> {
-  const cacheKey = address.toLowerCase()
-  
-  // Check cache first
-  if (identityCache.has(cacheKey)) {
-    return identityCache.get(cacheKey)!
-  }
-
-  // Fetch both Farcaster and ENS data in parallel
-  const [farcasterUser, ensData] = await Promise.all([
-    getFarcasterUserByAddress(address),
-    resolveName(address)
-  ])
-
-  // Determine display name and type based on priority
-  let displayName: string
-  let displayAvatar: string | null = null
-  let profileUrl: string | null = null
-  let identityType: UserIdentity['identityType']
-  let hasVerifiedIdentity: boolean
-
-  if (farcasterUser) {
-    // Priority 1: Farcaster
-    displayName = farcasterUser.displayName || `@${farcasterUser.username}`
-    displayAvatar = farcasterUser.pfpUrl
-    profileUrl = `https://warpcast.com/${farcasterUser.username}`
-    identityType = 'farcaster'
-    hasVerifiedIdentity = true
-  } else if (ensData.basename) {
-    // Priority 2: Basename
-    displayName = ensData.basename
-    identityType = 'basename'
-    hasVerifiedIdentity = true
-  } else if (ensData.ens) {
-    // Priority 3: ENS
-    displayName = ensData.ens
-    identityType = 'ens'
-    hasVerifiedIdentity = true
-  } else {
-    // Priority 4: Address
-    displayName = `${address.slice(0, 6)}...${address.slice(-4)}`
-    identityType = 'address'
-    hasVerifiedIdentity = false
-  }
-
-  const identity: UserIdentity = {
-    address,
-    farcaster: farcasterUser,
-    ens: ensData.ens,
-    basename: ensData.basename,
-    displayName,
-    displayAvatar,
-    profileUrl,
-    hasVerifiedIdentity,
-    identityType
-  }
-
-  // Cache the result
-  identityCache.set(cacheKey, identity)
-  return identity
+  const identity = await identityCache.getOrLoad(
+    address.toLowerCase(),
+    () => resolveIdentity(address, clientIdentityResolvers, IDENTITY_PRIORITY)
+  )
+  return identity ?? buildIdentity(address, { farcaster: null, ens: null, basename: null }, IDENTITY_PRIORITY)
 }
 
 // Batch resolve identities for multiple addresses (optimized)
@@ -87,80 +45,117 @@ export async function batchResolveIdentities(addresses: string[]): Promise<Map<s
   const results = new Map<string, UserIdentity>()
   const uncachedAddresses: string[] = []
 
-  // Check cache first
-  addresses.forEach(address => {
-    const cached = identityCache.get(address.toLowerCase())
-    if (cached) {
-      results.set(address, cached)
+  // Check cache first (recently failed lookups are retried here, since the batch never throws)
+  for (const address of addresses) {
+    const cached = await identityCache.get(address.toLowerCase())
+    if (cached.status === 'hit' && cached.value) {
+      results.set(address, cached.value)
     } else {
       uncachedAddresses.push(address)
     }
-  })
+  }
 
   if (uncachedAddresses.length === 0) {
     return results
   }
 
-  // Batch fetch Farcaster and ENS data
-  const [farcasterUsers, ensPromises] = await Promise.all([
+  // Batch fetch Farcaster and ENS data (addresses whose name lookup failed are missing from names)
+  const [farcasterUsers, names] = await Promise.all([
     batchGetFarcasterUsers(uncachedAddresses),
-    Promise.all(uncachedAddresses.map(addr => resolveName(addr)))
+    batchResolveName(uncachedAddresses)
   ])
 
   // Process results
-  uncachedAddresses.forEach((address, index) => {
-    const farcasterUser = farcasterUsers.get(address) ?? null
-    const ensData = ensPromises[index]
-
-    // Determine display properties
-    let displayName: string
-    let displayAvatar: string | null = null
-    let profileUrl: string | null = null
-    let identityType: UserIdentity['identityType']
-    let hasVerifiedIdentity: boolean
-
-    if (farcasterUser) {
-      displayName = farcasterUser.displayName || `@${farcasterUser.username}`
-      displayAvatar = farcasterUser.pfpUrl
-      profileUrl = `https://farcaster.xyz/${farcasterUser.username}`
-      identityType = 'farcaster'
-      hasVerifiedIdentity = true
-    } else if (ensData.basename) {
-      displayName = ensData.basename
-      identityType = 'basename'
-      hasVerifiedIdentity = true
-    } else if (ensData.ens) {
-      displayName = ensData.ens
-      identityType = 'ens'
-      hasVerifiedIdentity = true
-    } else {
-      displayName = `${address.slice(0, 6)}...${address.slice(-4)}`
-      identityType = 'address'
-      hasVerifiedIdentity = false
-    }
+  for (const address of uncachedAddresses) {
+    const lookupFailed = !names.has(address)
+    const identity = buildIdentity(address, {
+      farcaster: farcasterUsers.get(address) ?? null,
+      ens: names.get(address)?.ens ?? null,
+      basename: names.get(address)?.basename ?? null
+    }, IDENTITY_PRIORITY)
 
-    const identity: UserIdentity = {
-      address,
-      farcaster: farcasterUser,
-      ens: ensData.ens,
-      basename: ensData.basename,
-      displayName,
-      displayAvatar,
-      profileUrl,
-      hasVerifiedIdentity,
-      identityType
+    results.set(address, identity)
+    // Only cache complete lookups so failures are retried next time
+    if (!lookupFailed) {
+      await identityCache.set(address.toLowerCase(), identity)
     }
+  }
 
-    results.set(address, identity)
-    identityCache.set(address.toLowerCase(), identity)
+  return results
+}
+
+// Resolve user input (0x address, ENS name, Basename or @username) to an address
+export async function resolveAddressInput(input: string): Promise<{
+  address: string
+  source: 'address' | 'farcaster' | 'ens' | 'basename'
+} | null> {
+  const cleanInput = input.trim().toLowerCase()
+  if (!cleanInput) return null
+
+  if (isAddress(cleanInput)) {
+    return { address: cleanInput, source: 'address' }
+  }
+
+  // Names with a dot are ENS / Basenames, unless prefixed with @ (e.g. @dwr.eth on Farcaster)
+  if (cleanInput.includes('.') && !cleanInput.startsWith('@')) {
+    const { address, type } = await resolveNameToAddress(cleanInput)
+    return address && type ? { address, source: type } : null
+  }
+
+  // A Farcaster user's profile is their verified wallet with the largest stake (the best rank);
+  // if none of them stakes, the first verified wallet
+  const farcasterUser = await getFarcasterUserByUsername(cleanInput)
+  const verifiedAddresses = (farcasterUser?.verifiedAddresses || []).map(address => address.toLowerCase())
+  if (verifiedAddresses.length === 0) return null
+
+  const balances = await multicallBalances(verifiedAddresses)
+  const address = verifiedAddresses.reduce((best, candidate) =>
+    (balances.get(candidate) ?? 0n) > (balances.get(best) ?? 0n) ? candidate : best
+  )
+  return { address, source: 'farcaster' }
+}
+
+// Group stakers by Farcaster FID, summing stakes across a user's verified wallets, and rank
+// the groups by total. Stakers without a Farcaster account form single-wallet groups.
+// Only wallets present in `stakers` are counted, so pass useIdentityStakers' list (which adds
+// verified wallets from outside the top 1000) for complete totals.
+export function groupStakersByIdentity(stakers: StakerWithIdentity[]): IdentityGroup[] {
+  const byAmount = (a: StakerWithIdentity, b: StakerWithIdentity) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0)
+
+  const walletsByKey = new Map<string, StakerWithIdentity[]>()
+  for (const staker of stakers) {
+    const key = staker.farcasterFid ? `fid:${staker.farcasterFid}` : staker.address
+    walletsByKey.set(key, [...(walletsByKey.get(key) || []), staker])
+  }
+
+  const groups = [...walletsByKey].map(([key, wallets]) => {
+    const sortedWallets = [...wallets].sort(byAmount)
+    const lead = sortedWallets[0]
+
+    return {
+      key,
+      fid: lead.farcasterFid,
+      // Rank movement is tracked per wallet, so it doesn't carry over to the group
+      staker: {
+        ...lead,
+        amount: sortedWallets.reduce((sum, wallet) => sum + wallet.amount, 0n),
+        previousRank: undefined,
+        rankDelta: undefined,
+        rankDelta24h: undefined,
+        rankDelta7d: undefined,
+        isNew: undefined
+      },
+      wallets: sortedWallets
+    }
   })
 
-  return results
+  groups.sort((a, b) => byAmount(a.staker, b.staker))
+  return groups.map((group, index) => ({ ...group, staker: { ...group.staker, rank: index + 1 } }))
 }
 
 // Clear all identity caches
-export function clearIdentityCache(): void {
-  identityCache.clear()
+export async function clearIdentityCache(): Promise<void> {
+  await identityCache.clear()
 }
 
 // Helper to get identity badge/icon
@@ -4,6 +4,11 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
   readonly VITE_NEYNAR_API_KEY: string
+  readonly VITE_ANKR_API_KEY?: string
+  readonly VITE_BASE_RPC_URL?: string
+  readonly VITE_HOLDER_SOURCE?: string
+  readonly VITE_IDENTITY_PRIORITY?: string
+  readonly VITE_WALLETCONNECT_PROJECT_ID?: string
   readonly VITE_APP_ENV: string
 }
 